@@ -1,12 +1,19 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { SimulationState, SimulationStatus, SimulationResponse } from './types';
+import { SimulationState, SimulationStatus, SimulationResponse, CodeDiagnostic, SavedSimState, SaveTarget, CameraBookmark, SimulationRecording } from './types';
 import { generateSimulation, modifySimulation, explainPhysics } from './services/gemini';
+import { isPackageArchive, loadPackageFromFolder, loadPackageFromZip } from './services/packages';
+import { getCameraBookmarks, readCameraBookmarks, saveCameraBookmarks } from './services/cameraBookmarks';
+import { simulationStorageKey } from './services/storage';
+import { StoredRecording, addRecording, getRecordings, removeRecording } from './services/recordings';
+import { downloadSavedSimulation, isSavedStateFile, parseSavedSimulation, readSavedState, savedStateTitle } from './services/savedStates';
 import { DynamicScene } from './components/DynamicScene';
 import { ExplanationPanel } from './components/ExplanationPanel';
 import { InputBar } from './components/InputBar';
-import { AlertTriangle, Atom, Play, Loader2, Menu, ChevronDown, ChevronUp, History, Library, MessageSquare, Box, RotateCcw, Upload } from 'lucide-react';
+import { CodeExcerpt } from './components/CodeExcerpt';
+import { AlertTriangle, Atom, Play, Loader2, Menu, ChevronDown, ChevronUp, History, Library, MessageSquare, Box, RotateCcw, Upload, FolderOpen } from 'lucide-react';
 import { PERFECT_SIMULATIONS } from './data/perfectSimulations';
 import { Leva } from 'leva';
+import { LEVA_THEME } from './components/levaTheme';
 
 // Default initial state
 const INITIAL_CODE = `
@@ -78,6 +85,16 @@ PhysiGen AI generates interactive 3D physics simulations from natural language d
 - **Feynman Tutor**: Ask questions to understand the math.
 `;
 
+// Sandbox policy: 'untrusted' isolates generated, modified and imported code,
+// 'always' isolates everything (library included), 'never' runs all code inline.
+const SANDBOX_MODE = (import.meta.env.VITE_SANDBOX_MODE || 'untrusted') as 'untrusted' | 'always' | 'never';
+
+const shouldSandbox = (trusted: boolean): boolean => {
+  if (SANDBOX_MODE === 'always') return true;
+  if (SANDBOX_MODE === 'never') return false;
+  return !trusted;
+};
+
 // Types for History
 interface QAEntry {
   question: string;
@@ -93,17 +110,104 @@ const App: React.FC = () => {
   const [refreshKey, setRefreshKey] = useState(0); 
   
   const [data, setData] = useState<{ 
+    /** Library key (built-in or custom) when the simulation was opened from the library. */
+    id?: string;
     code: string; 
     explanation: string; 
     title: string;
     sources?: { title: string; uri: string }[];
+    files?: Record<string, string>;
+    entry?: string;
+    savedState?: SavedSimState;
+    /** Library code; generated, modified and imported code is not. */
+    trusted: boolean;
+    sandboxed: boolean;
   }>({
     code: INITIAL_CODE,
     explanation: INITIAL_EXPLANATION,
     title: "PhysiGen AI",
-    sources: []
+    sources: [],
+    trusted: true,
+    sandboxed: shouldSandbox(true)
   });
   const [error, setError] = useState<string | null>(null);
+  const [errorDiagnostics, setErrorDiagnostics] = useState<CodeDiagnostic[]>([]);
+
+  // Recordings and camera bookmarks are kept per simulation (library id, else title)
+  const storageKey = simulationStorageKey(data.title, data.id);
+
+  // Camera bookmarks of the current simulation
+  const [bookmarks, setBookmarks] = useState<CameraBookmark[]>(() => getCameraBookmarks(storageKey));
+
+  useEffect(() => {
+    setBookmarks(getCameraBookmarks(storageKey));
+  }, [storageKey]);
+
+  const handleBookmarksChange = useCallback((next: CameraBookmark[]) => {
+    const clean = readCameraBookmarks(next); // may come from a sandboxed sim
+    saveCameraBookmarks(storageKey, clean);
+    setBookmarks(clean);
+  }, [storageKey]);
+
+  // Recordings attached to the open simulation. The videos live in IndexedDB
+  // (services/recordings.ts); object URLs exist only while the simulation is open.
+  const [recordings, setRecordings] = useState<SimulationRecording[]>([]);
+  const recordingUrlsRef = useRef(new Set<string>());
+  const storageKeyRef = useRef(storageKey);
+  storageKeyRef.current = storageKey;
+
+  const toRecording = useCallback(({ video, simulation, ...stored }: StoredRecording): SimulationRecording => {
+    const url = URL.createObjectURL(video);
+    recordingUrlsRef.current.add(url);
+    return { ...stored, url };
+  }, []);
+
+  const revokeRecordingUrls = useCallback(() => {
+    recordingUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    recordingUrlsRef.current.clear();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRecordings([]);
+    getRecordings(storageKey).then(stored => {
+      if (!cancelled) setRecordings(stored.map(toRecording));
+    });
+    return () => {
+      cancelled = true;
+      revokeRecordingUrls();
+    };
+  }, [storageKey, toRecording, revokeRecordingUrls]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', revokeRecordingUrls);
+    return () => window.removeEventListener('pagehide', revokeRecordingUrls);
+  }, [revokeRecordingUrls]);
+
+  const handleAttachRecording = useCallback((video: Blob, duration: number) => {
+    if (!(video instanceof Blob)) return; // may come from a sandboxed sim
+    const key = storageKey;
+    const createdAt = Date.now();
+    addRecording(key, {
+      name: `${data.title} ${new Date(createdAt).toLocaleTimeString()}.webm`,
+      video,
+      duration: typeof duration === 'number' && Number.isFinite(duration) ? duration : 0,
+      size: video.size,
+      createdAt
+    })
+      .then(stored => {
+        // The user may have opened another simulation while the video was stored
+        if (storageKeyRef.current === key) setRecordings(prev => [toRecording(stored), ...prev]);
+      })
+      .catch((err: any) => setError(`Could not keep the recording: ${err.message}`));
+  }, [storageKey, data.title, toRecording]);
+
+  const handleRemoveRecording = useCallback((recording: SimulationRecording) => {
+    URL.revokeObjectURL(recording.url);
+    recordingUrlsRef.current.delete(recording.url);
+    setRecordings(prev => prev.filter(r => r.id !== recording.id));
+    removeRecording(recording.id);
+  }, []);
 
   // History State: Global list for the session
   const [qaHistory, setQaHistory] = useState<QAEntry[]>([]);
@@ -111,10 +215,11 @@ const App: React.FC = () => {
   // Local Custom Simulations (Imported from file)
   const [customSims, setCustomSims] = useState<Record<string, SimulationResponse>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   // --- ROUTER LOGIC ---
   const handleSimulationRequest = async (prompt: string) => {
-    setError(null);
+    clearError();
     setCurrentPrompt(prompt);
 
     const lowerPrompt = prompt.toLowerCase().trim();
@@ -148,7 +253,11 @@ const App: React.FC = () => {
         code: result.componentCode,
         explanation: result.explanation,
         title: result.title,
-        sources: result.sources
+        sources: result.sources,
+        files: result.files,
+        entry: result.entry,
+        trusted: false,
+        sandboxed: shouldSandbox(false)
       });
       setRefreshKey(prev => prev + 1); // Ensure fresh mount
       setStatus(SimulationStatus.READY);
@@ -167,7 +276,11 @@ const App: React.FC = () => {
         code: result.componentCode,
         explanation: result.explanation, 
         title: result.title,
-        sources: data.sources 
+        sources: data.sources,
+        files: data.files,
+        entry: data.entry,
+        trusted: false,
+        sandboxed: shouldSandbox(false)
       });
       setRefreshKey(prev => prev + 1);
       setStatus(SimulationStatus.READY);
@@ -207,7 +320,7 @@ const App: React.FC = () => {
 
   const handlePresetClick = async (key: string) => {
     setStatus(SimulationStatus.GENERATING);
-    setError(null);
+    clearError();
     
     // Check custom sims first, then built-in
     const sim = customSims[key] || PERFECT_SIMULATIONS[key];
@@ -224,36 +337,105 @@ const App: React.FC = () => {
     await new Promise(resolve => setTimeout(resolve, delay));
     
     setData({
+      id: key,
       code: sim.componentCode,
       explanation: sim.explanation,
       title: sim.title,
-      sources: sim.sources || []
+      sources: sim.sources || [],
+      files: sim.files,
+      entry: sim.entry,
+      savedState: sim.savedState,
+      trusted: !customSims[key],
+      sandboxed: shouldSandbox(!customSims[key])
     });
     setRefreshKey(prev => prev + 1);
     setStatus(SimulationStatus.READY);
   };
 
   const handleReset = () => {
-    const customKey = Object.keys(customSims).find(key => customSims[key].title === data.title);
-    const libraryKey = Object.keys(PERFECT_SIMULATIONS).find(key => PERFECT_SIMULATIONS[key].title === data.title);
+    // Opened from the library: its own entry; otherwise the entry with the same title
+    const findKey = (sims: Record<string, SimulationResponse>) =>
+      data.id ? (data.id in sims ? data.id : undefined) : Object.keys(sims).find(key => sims[key].title === data.title);
+    const customKey = findKey(customSims);
+    const libraryKey = findKey(PERFECT_SIMULATIONS);
 
     const sim = customKey ? customSims[customKey] : (libraryKey ? PERFECT_SIMULATIONS[libraryKey] : null);
 
     if (sim) {
       setData({
+        id: customKey ?? libraryKey,
         code: sim.componentCode,
         explanation: sim.explanation,
         title: sim.title,
-        sources: []
+        sources: [],
+        files: sim.files,
+        entry: sim.entry,
+        savedState: sim.savedState,
+        trusted: !customKey,
+        sandboxed: shouldSandbox(!customKey)
       });
     }
     setRefreshKey(prev => prev + 1);
   };
 
+  const addCustomSim = (sim: SimulationResponse) => {
+    const key = `custom-${Date.now()}`;
+    setCustomSims(prev => ({ ...prev, [key]: sim }));
+  };
+
+  const importSimulation = async (load: () => Promise<SimulationResponse>) => {
+    try {
+      addCustomSim(await load());
+    } catch (err: any) {
+      console.error(err);
+      setError(`Import failed: ${err.message}`);
+    }
+  };
+
+  // Saved moments become library entries that resume where they were saved
+  const handleSaveState = useCallback((state: SavedSimState, target: SaveTarget) => {
+    let savedState: SavedSimState;
+    try {
+      savedState = readSavedState(state); // may come from a sandboxed sim
+    } catch (err: any) {
+      setError(`Could not save state: ${err.message}`);
+      return;
+    }
+
+    const sim: SimulationResponse = {
+      title: savedStateTitle(data.title, savedState),
+      componentCode: data.code,
+      explanation: data.explanation,
+      sources: data.sources,
+      files: data.files,
+      entry: data.entry,
+      savedState
+    };
+
+    if (target === 'file') {
+      downloadSavedSimulation(sim);
+    } else {
+      addCustomSim(sim);
+      setActiveTab('library');
+    }
+  }, [data]);
+
   const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    if (isPackageArchive(file)) {
+      importSimulation(() => loadPackageFromZip(file));
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      return;
+    }
+
+    if (isSavedStateFile(file)) {
+      importSimulation(async () => parseSavedSimulation(await file.text()));
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (event) => {
       const text = event.target?.result as string;
@@ -266,18 +448,31 @@ const App: React.FC = () => {
         sources: []
       };
 
-      const key = `custom-${Date.now()}`;
-      setCustomSims(prev => ({ ...prev, [key]: newSim }));
+      addCustomSim(newSim);
       
       if (fileInputRef.current) fileInputRef.current.value = "";
     };
     reader.readAsText(file);
   };
 
-  const handleRuntimeError = useCallback((msg: string) => {
-    setError(`Runtime Error: ${msg}`);
+  const handleFolderImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = e.target.files;
+    if (!fileList || fileList.length === 0) return;
+
+    importSimulation(() => loadPackageFromFolder(fileList));
+    if (folderInputRef.current) folderInputRef.current.value = "";
+  };
+
+  const handleRuntimeError = useCallback((msg: string, diagnostics: CodeDiagnostic[] = []) => {
+    setError(diagnostics.length > 0 ? msg : `Runtime Error: ${msg}`);
+    setErrorDiagnostics(diagnostics);
   }, []);
 
+  const clearError = () => {
+    setError(null);
+    setErrorDiagnostics([]);
+  };
+
   const getStatusText = () => {
     switch(status) {
       case SimulationStatus.GENERATING: return "Researching & Building...";
@@ -333,12 +528,17 @@ const App: React.FC = () => {
              <div className="flex flex-col gap-1">
                 {/* Import */}
                 <div className="pb-3 border-b border-zinc-800 mb-3">
-                  <input type="file" ref={fileInputRef} className="hidden" accept=".tsx,.ts" onChange={handleFileImport} />
+                  <input type="file" ref={fileInputRef} className="hidden" accept=".tsx,.ts,.zip,.json" onChange={handleFileImport} />
+                  <input type="file" ref={folderInputRef} className="hidden" {...{ webkitdirectory: '' }} multiple onChange={handleFolderImport} />
                   <button onClick={() => fileInputRef.current?.click()} className="w-full flex items-center justify-center gap-2 px-3 py-2.5 bg-[#6B26D9]/10 hover:bg-[#6B26D9]/20 border border-[#6B26D9]/30 rounded-lg text-xs font-semibold text-[#a78bfa] transition-all group">
                     <Upload className="w-3.5 h-3.5" />
                     <span>Import Simulation (.tsx)</span>
                   </button>
-                  <p className="text-[10px] text-zinc-600 text-center mt-1.5">Accepts .tsx / .ts component files</p>
+                  <button onClick={() => folderInputRef.current?.click()} className="w-full flex items-center justify-center gap-2 mt-1.5 px-3 py-2 bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 rounded-lg text-xs font-medium text-zinc-400 hover:text-zinc-200 transition-all">
+                    <FolderOpen className="w-3.5 h-3.5" />
+                    <span>Import Package Folder</span>
+                  </button>
+                  <p className="text-[10px] text-zinc-600 text-center mt-1.5">Accepts .tsx / .ts component files, .zip packages or saved .json states</p>
                 </div>
                 
                 {/* Custom Sims */}
@@ -396,25 +596,13 @@ const App: React.FC = () => {
                 fill 
                 flat 
                 titleBar={{ title: 'Controls', filter: false }}
-                theme={{
-                  colors: {
-                    elevation1: '#18181b', // Zinc 900
-                    elevation2: '#27272a', // Zinc 800
-                    elevation3: '#3f3f46', // Zinc 700
-                    accent1: '#6B26D9',    // Purple
-                    accent2: '#7C3AED',    // Purple 600
-                    accent3: '#9333EA',    // Purple 500
-                    highlight1: '#a1a1aa',
-                    highlight2: '#d4d4d8',
-                    highlight3: '#f4f4f5',
-                    vivid1: '#e4e4e7',
-                  },
-                  sizes: {
-                    rootWidth: '100%',
-                    controlWidth: '140px'
-                  }
-                }}
+                theme={LEVA_THEME}
               />
+              {data.sandboxed && (
+                <p className="text-[10px] text-zinc-600 text-center px-3 py-2">
+                  This simulation runs in a sandbox. Its controls are shown inside the canvas.
+                </p>
+              )}
            </div>
         </div>
 
@@ -454,7 +642,21 @@ const App: React.FC = () => {
           </div>
         )}
 
-        <DynamicScene key={refreshKey} code={data.code} onError={handleRuntimeError} />
+        <DynamicScene
+          key={refreshKey}
+          code={data.code}
+          files={data.files}
+          entry={data.entry}
+          title={data.title}
+          initialState={data.savedState}
+          onError={handleRuntimeError}
+          onSaveState={handleSaveState}
+          bookmarks={bookmarks}
+          onBookmarksChange={handleBookmarksChange}
+          onAttachRecording={handleAttachRecording}
+          trusted={data.trusted}
+          sandboxed={data.sandboxed}
+        />
         
         <InputBar 
           onSubmit={handleSimulationRequest} 
@@ -463,14 +665,29 @@ const App: React.FC = () => {
         
         {/* Error Notification */}
         {error && (
-          <div className="absolute top-20 right-6 max-w-sm bg-red-950/90 border border-red-500/50 backdrop-blur-md text-red-200 px-4 py-3 rounded-xl shadow-2xl z-50 flex items-start gap-3 animate-in fade-in slide-in-from-top-4">
+          <div className={`absolute top-20 right-6 ${errorDiagnostics.length > 0 ? 'max-w-lg' : 'max-w-sm'} bg-red-950/90 border border-red-500/50 backdrop-blur-md text-red-200 px-4 py-3 rounded-xl shadow-2xl z-50 flex items-start gap-3 animate-in fade-in slide-in-from-top-4`}>
             <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5 text-red-500" />
-            <div>
+            <div className="min-w-0">
               <h3 className="font-bold text-xs uppercase tracking-wider text-red-500 mb-0.5">System Error</h3>
-              <p className="text-xs leading-relaxed opacity-90">{error}</p>
+              <p className="text-xs leading-relaxed opacity-90 whitespace-pre-line">{error}</p>
+              {errorDiagnostics.length > 0 && (
+                <ul className="mt-2 flex flex-col gap-1">
+                  {errorDiagnostics.map((d, i) => (
+                    <li key={i} className="text-[11px] font-mono leading-snug">
+                      <span className="text-red-400">{d.file ? `${d.file}:` : 'L'}{d.line}:{d.column + 1}</span> {d.message}
+                      {d.rule && <span className="opacity-50"> ({d.rule})</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {errorDiagnostics.length > 0 && (
+                <div className="mt-2">
+                  <CodeExcerpt code={data.code} files={data.files} file={errorDiagnostics[0].file} line={errorDiagnostics[0].line} column={errorDiagnostics[0].column} />
+                </div>
+              )}
             </div>
             <button 
-              onClick={() => setError(null)} 
+              onClick={clearError} 
               className="ml-auto hover:bg-red-900/50 p-1 rounded text-red-400 transition-colors"
             >
               ✕
@@ -485,6 +702,8 @@ const App: React.FC = () => {
           title={data.title} 
           content={data.explanation} 
           sources={data.sources}
+          recordings={recordings}
+          onRemoveRecording={handleRemoveRecording}
           onAskQuestion={(q) => performExplanation(q)} 
           isAnswering={status === SimulationStatus.EXPLAINING}
         />
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Camera, Crosshair, Plus, X } from 'lucide-react';
+import { CameraRig, STANDARD_VIEWS, StandardView } from '../utils/cameraRig';
+import { CameraBookmark } from '../types';
+
+const VIEW_LABELS: Record<StandardView, string> = { top: 'Top', front: 'Front', side: 'Side', isometric: 'Iso' };
+
+interface CameraMenuProps {
+  rig: CameraRig;
+  bookmarks?: CameraBookmark[];
+  /** Absent when the host does not persist bookmarks; the section is hidden. */
+  onBookmarksChange?: (bookmarks: CameraBookmark[]) => void;
+}
+
+/**
+ * Standard views, bookmarks and follow mode. Collapsed to a single pill until opened.
+ */
+export const CameraMenu: React.FC<CameraMenuProps> = ({ rig, bookmarks = [], onBookmarksChange }) => {
+  const [open, setOpen] = useState(false);
+  const [targets, setTargets] = useState(rig.targetNames);
+  const [followed, setFollowed] = useState(rig.followed);
+  const [draftName, setDraftName] = useState('');
+
+  useEffect(() => rig.subscribe(() => {
+    setTargets(rig.targetNames());
+    setFollowed(rig.followed);
+  }), [rig]);
+
+  const addBookmark = () => {
+    const pose = rig.pose();
+    if (!pose || !onBookmarksChange) return;
+    const name = draftName.trim() || `View ${bookmarks.length + 1}`;
+    onBookmarksChange([...bookmarks.filter(b => b.name !== name), { name, pose }]);
+    setDraftName('');
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="absolute top-28 left-4 z-10 bg-zinc-900/80 backdrop-blur-md border border-zinc-800 px-3 py-1 rounded-full shadow-lg flex items-center gap-2 text-[11px] font-mono text-zinc-400 hover:text-white transition-colors"
+      >
+        <Camera size={11} className="text-[#a78bfa]" /> Camera
+        {followed && <span className="text-emerald-400">following {followed}</span>}
+      </button>
+    );
+  }
+
+  return (
+    <div className="absolute top-28 left-4 z-20 w-60 bg-zinc-950/90 border border-zinc-800 rounded-lg backdrop-blur-md text-[11px] text-zinc-300 shadow-xl">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-800 font-semibold text-zinc-200">
+        <Camera size={12} className="text-[#a78bfa]" /> Camera
+        <button onClick={() => setOpen(false)} title="Close" className="ml-auto text-zinc-500 hover:text-white transition-colors">
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="px-3 py-2 grid grid-cols-4 gap-1 border-b border-zinc-800">
+        {STANDARD_VIEWS.map(view => (
+          <button
+            key={view}
+            onClick={() => rig.moveTo(rig.viewPose(view))}
+            className="py-1 rounded bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 text-zinc-400 hover:text-white transition-colors"
+          >
+            {VIEW_LABELS[view]}
+          </button>
+        ))}
+      </div>
+
+      {targets.length > 0 && (
+        <label className="px-3 py-2 flex items-center gap-2 border-b border-zinc-800">
+          <Crosshair size={12} className="text-zinc-500 shrink-0" />
+          <span className="text-zinc-500">Follow</span>
+          <select
+            value={followed ?? ''}
+            onChange={e => rig.follow(e.target.value || null)}
+            className="ml-auto flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-200"
+          >
+            <option value="">None</option>
+            {targets.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+      )}
+
+      {onBookmarksChange && (
+        <div className="px-3 py-2">
+          <ul className="flex flex-col gap-0.5 mb-1.5">
+            {bookmarks.map(bookmark => (
+              <li key={bookmark.name} className="group flex items-center gap-2">
+                <button
+                  onClick={() => rig.moveTo(bookmark.pose)}
+                  className="flex-1 min-w-0 flex items-center gap-1.5 text-left text-zinc-300 hover:text-white truncate"
+                >
+                  <Bookmark size={11} className="text-[#a78bfa] shrink-0" /> {bookmark.name}
+                </button>
+                <button
+                  onClick={() => onBookmarksChange(bookmarks.filter(b => b !== bookmark))}
+                  title="Delete bookmark"
+                  className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400 transition-opacity"
+                >
+                  <X size={11} />
+                </button>
+              </li>
+            ))}
+          </ul>
+          {/* No <form>: submission is blocked inside the sandbox iframe */}
+          <div className="flex items-center gap-1">
+            <input
+              value={draftName}
+              onChange={e => setDraftName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') addBookmark(); }}
+              placeholder="Bookmark this view"
+              maxLength={40}
+              className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-1.5 py-0.5 text-zinc-200 placeholder:text-zinc-600"
+            />
+            <button onClick={addBookmark} title="Save bookmark" className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors">
+              <Plus size={12} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
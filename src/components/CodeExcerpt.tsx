@@ -0,0 +1,48 @@
+import React from 'react';
+
+interface CodeExcerptProps {
+  code: string;
+  line: number;    // 1-based
+  column?: number; // 0-based
+  context?: number;
+  /** Package helper file the location points into (excerpt is taken from `files`). */
+  file?: string;
+  files?: Record<string, string>;
+}
+
+/**
+ * A few lines of simulation code around an error, with the failing line highlighted.
+ */
+export const CodeExcerpt: React.FC<CodeExcerptProps> = ({ code, line, column, context = 3, file, files }) => {
+  const source = file ? files?.[file] ?? '' : code;
+  const lines = source.split('\n');
+  const start = Math.max(1, line - context);
+  const end = Math.min(lines.length, line + context);
+  const gutterWidth = String(end).length;
+
+  if (line < 1 || line > lines.length) return null;
+
+  return (
+    <pre className="code-font text-[11px] leading-relaxed bg-black/60 border border-red-500/30 rounded-md py-1.5 overflow-x-auto text-left">
+      {file && <div className="px-2 pb-1 text-zinc-500">{file}</div>}
+      {lines.slice(start - 1, end).map((text, i) => {
+        const n = start + i;
+        const isTarget = n === line;
+        return (
+          <div key={n} className={isTarget ? 'bg-red-500/25 text-white' : 'text-zinc-400'}>
+            <span className="inline-block select-none text-right pr-3 pl-2 opacity-50" style={{ width: `${gutterWidth + 3}ch` }}>
+              {isTarget ? '>' : ' '}{n}
+            </span>
+            <span>{text || ' '}</span>
+            {isTarget && column !== undefined && (
+              <div className="text-red-400">
+                <span className="inline-block" style={{ width: `${gutterWidth + 3}ch` }} />
+                {' '.repeat(column)}^
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </pre>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { CacheSource, clearCompileCache, getCompileCacheStats, subscribeCompileCache } from '../utils/compileCache';
+
+const SOURCE_STYLE: Record<CacheSource, string> = {
+  memory: 'text-emerald-400',
+  persisted: 'text-sky-400',
+  miss: 'text-zinc-500',
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Debug view for the compile cache: hit counters and the most recent lookups.
+ */
+export const CompileCachePanel: React.FC = () => {
+  const [stats, setStats] = useState(getCompileCacheStats);
+  useEffect(() => subscribeCompileCache(setStats), []);
+
+  const total = stats.hits.memory + stats.hits.persisted + stats.hits.miss;
+  const hitRate = total > 0 ? Math.round(((stats.hits.memory + stats.hits.persisted) / total) * 100) : 0;
+
+  return (
+    <div className="absolute bottom-24 left-4 z-20 w-72 bg-zinc-950/90 border border-zinc-800 rounded-lg backdrop-blur-md text-[11px] text-zinc-300 shadow-xl">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-800 font-semibold text-zinc-200">
+        <Database size={12} className="text-[#a78bfa]" /> Compile Cache
+        <span className="ml-auto font-mono text-zinc-500">v{stats.version}{stats.persistent ? '' : ' · memory only'}</span>
+        <button onClick={() => clearCompileCache()} title="Clear cache" className="text-zinc-500 hover:text-red-400 transition-colors">
+          <Trash2 size={12} />
+        </button>
+      </div>
+      <div className="grid grid-cols-4 gap-1 px-3 py-2 font-mono text-center">
+        <div><div className="text-emerald-400">{stats.hits.memory}</div><div className="text-zinc-600">memory</div></div>
+        <div><div className="text-sky-400">{stats.hits.persisted}</div><div className="text-zinc-600">idb</div></div>
+        <div><div className="text-zinc-400">{stats.hits.miss}</div><div className="text-zinc-600">miss</div></div>
+        <div><div className="text-white">{hitRate}%</div><div className="text-zinc-600">hit rate</div></div>
+      </div>
+      <div className="px-3 pb-1 text-zinc-500">{stats.memoryEntries} entries in memory · {formatBytes(stats.memoryBytes)}</div>
+      <ul className="px-3 pb-2 font-mono max-h-40 overflow-y-auto">
+        {stats.recent.map((lookup, i) => (
+          <li key={i} className="flex gap-2">
+            <span className={`w-16 shrink-0 ${SOURCE_STYLE[lookup.source]}`}>{lookup.source}</span>
+            <span className="truncate text-zinc-500">{lookup.file || lookup.key}</span>
+            <span className="ml-auto shrink-0">{lookup.ms.toFixed(1)} ms</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,111 +1,857 @@
-import React, { useMemo, useRef, useCallback } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useCallback, useState } from 'react';
+import { Canvas, RootState, addAfterEffect, useFrame } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Stars, Environment, ContactShadows, Html, Grid } from '@react-three/drei';
 import { useControls, button, folder } from 'leva';
-import { compileComponent } from '../utils/compiler';
-import { AlertTriangle } from 'lucide-react';
+import * as THREE from 'three';
+import { compileComponent, CompileError, CompiledSimulation } from '../utils/compiler';
+import { typeCheckModeFor } from '../utils/typeCheck';
+import { SimulationSourceMap, SourceLocation } from '../utils/sourceMap';
+import { FRAME_BUDGET_MS, FRAME_BUDGET_STRIKES, LoopBudgetError, createFrameBudgetTracker } from '../utils/cpuBudget';
+import { DEFAULT_TIMESTEP, MAX_TIME_SCALE, MIN_TIME_SCALE, SimClockView, createSimClock } from '../utils/simClock';
+import { createTimeTravel } from '../utils/snapshots';
+import { applyCameraPose, applyControlValues, captureCameraPose, captureControlValues } from '../utils/savedState';
+import { DEFAULT_CAMERA, InitialCamera, createCameraRig } from '../utils/cameraRig';
+import { RESOLUTION_OPTIONS, ScreenshotResolution, captureScreenshot, formatControlValues } from '../utils/screenshot';
+import { downloadBlob, toFilename } from '../utils/download';
+import { CanvasRecorder, RECORDING_FPS_OPTIONS, RecordingResult, createCanvasRecorder, isRecordingSupported } from '../utils/recorder';
+import { StrobeStatus, createStroboscope } from '../utils/stroboscope';
+import { createProfiler } from '../utils/profiler';
+import { createMeasurements } from '../utils/measurements';
+import { createProbes } from '../utils/probes';
+import { InvariantOptions, createInvariantChecker } from '../utils/invariants';
+import { AnalyticOptions, createAnalytics } from '../utils/analytics';
+import { FormulaError, compileFormula } from '../utils/formula';
+import { DATA_FORMAT_OPTIONS, DATA_FORMAT_TYPES, DATA_RATE_OPTIONS, DataFormat, createDataRecorder, formatDataCapture } from '../utils/dataRecorder';
+import { QUALITY_OPTIONS, QUALITY_SETTINGS, QualityMode, createQualityGovernor } from '../utils/quality';
+import { LAYOUT_OPTIONS, VIEWPORT_LAYOUTS, Viewport, ViewportLayout, canvasCenterPosition, createOrthoViews, viewportHtmlPosition } from '../utils/viewports';
+import { CameraBookmark, CodeDiagnostic, SavedSimState, SaveTarget } from '../types';
+import { SandboxFrame } from './SandboxFrame';
+import { CodeExcerpt } from './CodeExcerpt';
+import { CompileCachePanel } from './CompileCachePanel';
+import { Timeline } from './Timeline';
+import { CameraMenu } from './CameraMenu';
+import { ViewportOverlays, ViewportRenderer, withHtmlPlacement } from './Viewports';
+import { RecordingControls } from './RecordingControls';
+import { PerformanceHud } from './PerformanceHud';
+import { MeasureLayer, MeasureToolbar } from './MeasureTools';
+import { ProbePanel } from './ProbePanel';
+import { InvariantsPanel } from './InvariantsPanel';
+import { AlertTriangle, Gauge, Timer } from 'lucide-react';
 
 // --- Error Boundary ---
-interface ErrorBoundaryProps { children?: React.ReactNode; }
-interface ErrorBoundaryState { hasError: boolean; error: string; }
+interface ErrorBoundaryProps {
+  children?: React.ReactNode;
+  code: string;
+  files?: Record<string, string>;
+  sourceMap?: SimulationSourceMap;
+  typeDiagnostics?: CodeDiagnostic[];
+}
+interface ErrorBoundaryState { hasError: boolean; error: any; }
 
 class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
-  state: ErrorBoundaryState = { hasError: false, error: '' };
-  static getDerivedStateFromError(error: any) { return { hasError: true, error: error.message }; }
+  state: ErrorBoundaryState = { hasError: false, error: null };
+  static getDerivedStateFromError(error: any) { return { hasError: true, error }; }
   componentDidCatch(error: any) { console.error("Runtime Error:", error); }
   render() {
-    if (this.state.hasError) return <ErrorFallback error={this.state.error} />;
+    if (this.state.hasError) {
+      const { code, files, sourceMap, typeDiagnostics } = this.props;
+      return <ErrorFallback error={this.state.error} code={code} files={files} sourceMap={sourceMap} typeDiagnostics={typeDiagnostics} />;
+    }
     return this.props.children;
   }
 }
 
 // --- Error UI ---
-const ErrorFallback = ({ error }: { error: string }) => (
-  <Html center>
-    <div className="bg-red-900/90 p-4 rounded-lg border border-red-500 text-white w-64 backdrop-blur-md">
-      <div className="flex items-center gap-2 mb-2 font-bold text-red-300">
-        <AlertTriangle size={16} /> Runtime Error
+interface ErrorFallbackProps {
+  error: any;
+  code: string;
+  files?: Record<string, string>;
+  sourceMap?: SimulationSourceMap;
+  typeDiagnostics?: CodeDiagnostic[];
+}
+
+// Type-check findings are the likeliest explanation of a runtime crash; show the blocking ones
+const TypeHints = ({ diagnostics }: { diagnostics: CodeDiagnostic[] }) => {
+  const hints = diagnostics.filter(d => d.severity === 'error').slice(0, 3);
+  if (hints.length === 0) return null;
+  return (
+    <div className="mt-2 pt-2 border-t border-red-500/30">
+      <div className="text-[11px] font-semibold text-red-300 mb-1">Type check found likely causes:</div>
+      <ul className="flex flex-col gap-0.5">
+        {hints.map((d, i) => (
+          <li key={i} className="text-[11px] font-mono leading-snug opacity-90">
+            <span className="text-red-400">{d.file ? `${d.file}:` : 'L'}{d.line}:{d.column + 1}</span> {d.message.split('\n')[0]}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const ErrorFallback = ({ error, code, files, sourceMap, typeDiagnostics = [] }: ErrorFallbackProps) => {
+  const isLoopBudget = error instanceof LoopBudgetError;
+  const location = isLoopBudget ? error.site : sourceMap?.fromStack(error?.stack);
+  return (
+    <Html center calculatePosition={canvasCenterPosition}>
+      <div className="bg-red-900/90 p-4 rounded-lg border border-red-500 text-white w-[28rem] max-w-[80vw] backdrop-blur-md">
+        <div className="flex items-center gap-2 mb-2 font-bold text-red-300">
+          <AlertTriangle size={16} /> {isLoopBudget ? 'Simulation Too Expensive' : 'Runtime Error'}
+          {location && <span className="ml-auto text-[11px] font-mono text-red-200/80">{location.file ? `${location.file}:` : 'line '}{location.line}, col {location.column + 1}</span>}
+        </div>
+        <div className="text-xs font-mono opacity-80 break-words mb-2">{error?.message ?? String(error)}</div>
+        {location && <CodeExcerpt code={code} files={files} file={location.file} line={location.line} column={location.column} />}
+        <TypeHints diagnostics={typeDiagnostics} />
+      </div>
+    </Html>
+  );
+};
+
+// --- CPU Budget UI ---
+interface BudgetTrip { message: string; location: SourceLocation | null; }
+
+interface BudgetOverlayProps { trip: BudgetTrip; code: string; files?: Record<string, string>; onResume: () => void; }
+
+const BudgetOverlay = ({ trip, code, files, onResume }: BudgetOverlayProps) => (
+  <Html center calculatePosition={canvasCenterPosition}>
+    <div className="bg-amber-950/90 p-4 rounded-lg border border-amber-500 text-white w-[28rem] max-w-[80vw] backdrop-blur-md">
+      <div className="flex items-center gap-2 mb-2 font-bold text-amber-300">
+        <Gauge size={16} /> Simulation is too expensive
+        {trip.location && <span className="ml-auto text-[11px] font-mono text-amber-200/80">{trip.location.file ? `${trip.location.file}:` : 'line '}{trip.location.line}</span>}
       </div>
-      <div className="text-xs font-mono opacity-80 break-words">{error}</div>
+      <div className="text-xs opacity-80 mb-2">{trip.message}. The simulation was paused to keep the page responsive.</div>
+      {trip.location && <CodeExcerpt code={code} files={files} file={trip.location.file} line={trip.location.line} column={trip.location.column} />}
+      <button
+        onClick={onResume}
+        className="mt-3 px-3 py-1.5 text-xs font-semibold rounded bg-amber-500/20 hover:bg-amber-500/30 border border-amber-500/40 text-amber-200 transition-colors"
+      >
+        Resume anyway
+      </button>
     </div>
   </Html>
 );
 
+// --- Simulation Clock ---
+type SimFrameState = Omit<RootState, 'clock'> & { clock: SimClockView };
+type FrameCallback = (state: SimFrameState, delta: number) => void;
+
+interface FrameSubscriber {
+  callback: React.MutableRefObject<FrameCallback>;
+  priority: number;
+  site?: string;
+  tracker: ReturnType<typeof createFrameBudgetTracker>;
+  spent: number; // ms this frame, across all substeps
+}
+
+const TIMESTEP_OPTIONS = { '1/30 s': 1 / 30, '1/60 s': 1 / 60, '1/120 s': 1 / 120, '1/240 s': 1 / 240 };
+
+const formatSimTime = (seconds: number) => `t = ${seconds.toFixed(2)} s`;
+
+const NOTICE_MS = 4000;
+
+// Frames between resume stages: the sim mounts and registers its controls,
+// then reacts to the restored control values, before its state is restored
+const RESUME_SETTLE_FRAMES = 2;
+
+// Runs the clock and the gatekept callbacks of sim code (see customUseFrame)
+const FrameDriver = ({ onFrame }: { onFrame: (state: RootState, delta: number) => void }) => {
+  useFrame(onFrame);
+  return null;
+};
+
 const SceneContent: React.FC<{ Component: React.FC<any> }> = ({ Component }) => {
   return <Component />;
 };
 
-interface DynamicSceneProps {
+export interface DynamicSceneProps {
   code: string;
-  onError: (error: string) => void;
+  /** Helper files when the simulation is a multi-file package. */
+  files?: Record<string, string>;
+  /** Package path of the main component, when the package names a nested one. */
+  entry?: string;
+  /** Library code, which skips the type check unless VITE_SIM_TYPECHECK asks for it. */
+  trusted?: boolean;
+  /** Shown in screenshot captions and file names. */
+  title?: string;
+  onError: (error: string, diagnostics?: CodeDiagnostic[]) => void;
+  /** Run the code inside an opaque-origin iframe instead of the app window. */
+  sandboxed?: boolean;
+  /** Saved moment to resume from once the simulation has mounted. */
+  initialState?: SavedSimState;
+  onSaveState?: (state: SavedSimState, target: SaveTarget) => void;
+  /** Camera bookmarks of this simulation; persisted by the host. */
+  bookmarks?: CameraBookmark[];
+  onBookmarksChange?: (bookmarks: CameraBookmark[]) => void;
+  /** Keeps a finished recording with the simulation (library). */
+  onAttachRecording?: (video: Blob, duration: number) => void;
 }
 
 // --- Main Component ---
-export const DynamicScene: React.FC<DynamicSceneProps> = React.memo(({ code, onError }) => {
+export const DynamicScene: React.FC<DynamicSceneProps> = React.memo(({ sandboxed = false, ...props }) => {
+  if (sandboxed) return <SandboxFrame {...props} />;
+  return <InlineScene {...props} />;
+});
+
+// --- Inline Runtime (same window) ---
+const InlineScene: React.FC<Omit<DynamicSceneProps, 'sandboxed'>> = ({ code, files, entry, trusted = false, title, onError, initialState, onSaveState, bookmarks, onBookmarksChange, onAttachRecording }) => {
   const controlsRef = useRef<any>(null);
+  const saveStateRef = useRef<(target: SaveTarget) => void>(() => {});
+  const saveScreenshotRef = useRef<() => void>(() => {});
+  const startRecordingRef = useRef<() => void>(() => {});
+  const startStrobeRef = useRef<() => void>(() => {});
+  const startDataRef = useRef<() => void>(() => {});
+  const stopDataRef = useRef<() => void>(() => {});
+  const threeRef = useRef<RootState['get'] | null>(null);
   
-  // Global Pause Control
-  const { paused } = useControls('System', {
+  // Host-owned simulation clock (fixed timestep, see simClock.ts)
+  const clock = useMemo(() => createSimClock(), []);
+  const timeTravel = useMemo(() => createTimeTravel(clock), [clock]);
+  const rig = useMemo(() => createCameraRig(), []);
+  const strobe = useMemo(() => createStroboscope(), []);
+  const profiler = useMemo(() => createProfiler(), []);
+  const quality = useMemo(() => createQualityGovernor(), []);
+  const measurements = useMemo(() => createMeasurements(), []);
+  const probes = useMemo(() => createProbes(), []);
+  const dataRecorder = useMemo(() => createDataRecorder(), []);
+  const invariants = useMemo(() => createInvariantChecker(), []);
+  const analytics = useMemo(() => createAnalytics(probes), [probes]);
+  const getSimTime = useCallback(() => clock.time, [clock]);
+
+  const attachControls = useCallback((controls: any) => {
+    controlsRef.current = controls;
+    rig.attach(controls);
+  }, [rig]);
+
+  const { layout, qualityMode, paused, timeScale, timestep, substeps, resolution, transparent, caption, recordFps, recordOffline, dataRate, dataFormat, dataWindowed, dataFrom, dataTo, strobeInterval, strobeWindow, showCompileCache, showPerformance } = useControls('System', {
     'View': folder({
-      'Reset Camera': button(() => controlsRef.current?.reset())
+      layout: { value: 'single' as ViewportLayout, options: LAYOUT_OPTIONS, label: 'Layout' },
+      qualityMode: { value: 'auto' as QualityMode, options: QUALITY_OPTIONS, label: 'Quality' },
+      'Reset Camera': button(() => rig.moveTo(rig.home))
     }),
     'Time': folder({
-      paused: { value: false, label: 'Pause Physics' }
-    })
+      paused: { value: false, label: 'Pause Physics' },
+      timeScale: { value: 1, min: MIN_TIME_SCALE, max: MAX_TIME_SCALE, step: 0.01, label: 'Time Scale' },
+      timestep: { value: DEFAULT_TIMESTEP, options: TIMESTEP_OPTIONS, label: 'Timestep' },
+      substeps: { value: 1, min: 1, max: 8, step: 1, label: 'Substeps' },
+      'Step Frame': button(() => clock.requestStep())
+    }),
+    'Session': folder({
+      'Save to Library': button(() => saveStateRef.current('library')),
+      'Download State': button(() => saveStateRef.current('file'))
+    }),
+    'Export': folder({
+      resolution: { value: 'screen' as ScreenshotResolution, options: RESOLUTION_OPTIONS, label: 'Resolution' },
+      transparent: { value: false, label: 'Transparent' },
+      caption: { value: true, label: 'Caption' },
+      'Save PNG (Shift+S)': button(() => saveScreenshotRef.current())
+    }, { collapsed: true }),
+    'Stroboscope': folder({
+      strobeInterval: { value: 0.1, min: 0.02, max: 1, step: 0.01, label: 'Interval (s)' },
+      strobeWindow: { value: 2, min: 0.2, max: 10, step: 0.1, label: 'Window (s)' },
+      'Capture': button(() => startStrobeRef.current()),
+      'Clear': button(() => strobe.clear())
+    }, { collapsed: true }),
+    'Record': folder({
+      recordFps: { value: 30, options: RECORDING_FPS_OPTIONS, label: 'Frame Rate' },
+      recordOffline: { value: true, label: 'Fixed FPS (offline)' },
+      'Start Recording': button(() => startRecordingRef.current())
+    }, { collapsed: true, render: isRecordingSupported }),
+    'Data': folder({
+      dataRate: { value: 1, options: DATA_RATE_OPTIONS, label: 'Sample Rate' },
+      dataFormat: { value: 'csv' as DataFormat, options: DATA_FORMAT_OPTIONS, label: 'Format' },
+      dataWindowed: { value: false, label: 'Only t0 to t1' },
+      dataFrom: { value: 0, min: 0, step: 0.1, label: 't0 (s)' },
+      dataTo: { value: 10, min: 0, step: 0.1, label: 't1 (s)' },
+      'Record Probes': button(() => startDataRef.current()),
+      'Stop & Export': button(() => stopDataRef.current())
+    }, { collapsed: true }),
+    'Debug': folder({
+      showCompileCache: { value: false, label: 'Compile Cache' },
+      showPerformance: { value: false, label: 'Performance HUD' }
+    }, { collapsed: true })
   });
 
-  const simSettings = useRef({ paused });
-  simSettings.current = { paused };
+  useEffect(() => clock.configure({ paused, timeScale, timestep, substeps }), [clock, paused, timeScale, timestep, substeps]);
 
-  // Custom Frame Loop (Gatekeeper)
-  const customUseFrame = useCallback((callback: any, priority?: number) => {
-    return useFrame((state, delta) => {
-      if (simSettings.current.paused) return; 
-      callback(state, delta);
-    }, priority);
+  // Errors thrown inside useFrame never reach the ErrorBoundary (they run in the render loop),
+  // so the gatekeeper catches them, halts all callbacks and shows the same overlay.
+  const [frameError, setFrameError] = useState<any>(null);
+  const haltedRef = useRef(false);
+
+  // CPU watchdog: a callback that stays over budget (or a loop that blows its
+  // iteration budget) auto-pauses the sim until the user resumes it.
+  const [budgetTrip, setBudgetTrip] = useState<BudgetTrip | null>(null);
+  const sourceMapRef = useRef<SimulationSourceMap | null>(null);
+
+  const resumeFromBudgetTrip = useCallback(() => {
+    haltedRef.current = false;
+    setBudgetTrip(null);
+  }, []);
+
+  // Performance HUD: the loop reports callback times only while it is open
+  const profilingRef = useRef(false);
+  profilingRef.current = showPerformance;
+
+  const tripBudget = useCallback((subscriber: FrameSubscriber) => {
+    subscriber.tracker.reset();
+    haltedRef.current = true;
+    setBudgetTrip({
+      message: `A useFrame callback took ${subscriber.spent.toFixed(0)} ms per frame for ${FRAME_BUDGET_STRIKES} frames (budget ${FRAME_BUDGET_MS} ms)`,
+      location: sourceMapRef.current?.fromStack(subscriber.site) ?? null,
+    });
   }, []);
 
-  // Compile Code
-  const Component = useMemo(() => {
+  const haltOnFrameError = useCallback((err: unknown) => {
+    haltedRef.current = true;
+    if (err instanceof LoopBudgetError) {
+      setBudgetTrip({ message: err.message, location: err.site });
+    } else {
+      console.error("Runtime Error in useFrame:", err);
+      setFrameError(err);
+    }
+  }, []);
+
+  // Custom Frame Loop (Gatekeeper)
+  // Sim callbacks do not subscribe to R3F directly: they join this list and the
+  // driver below runs them, interleaved and in priority order, once per substep.
+  // Positive priorities are the exception. In R3F they take rendering over
+  // (render passes, composers), so they subscribe to R3F at that priority and run
+  // once per frame after the step; R3F then stops drawing the scene itself. They
+  // get the simulated time of the frame's steps as delta (0 while paused or
+  // rewound, when they still have to draw) and the same watchdog and profiling.
+  const subscribersRef = useRef<FrameSubscriber[]>([]);
+  const frameStepRef = useRef(0); // simulated seconds the current frame stepped
+  const readoutRef = useRef<HTMLSpanElement>(null);
+
+  const customUseFrame = useCallback((callback: FrameCallback, priority = 0) => {
+    // Registration site, resolved to a code line only if the callback trips the watchdog
+    const site = useMemo(() => new Error().stack, []);
+    const callbackRef = useRef(callback);
+    callbackRef.current = callback;
+
+    const rendersFrame = priority > 0;
+
+    useLayoutEffect(() => {
+      if (rendersFrame) return;
+      const subscriber: FrameSubscriber = { callback: callbackRef, priority, site, tracker: createFrameBudgetTracker(), spent: 0 };
+      const list = subscribersRef.current;
+      const index = list.findIndex(s => s.priority > priority);
+      list.splice(index < 0 ? list.length : index, 0, subscriber);
+      return () => { subscribersRef.current = subscribersRef.current.filter(s => s !== subscriber); };
+    }, [priority, site]);
+
+    // Hooks cannot be conditional, so every callback holds an R3F subscription;
+    // only the rendering ones ask for a priority and do anything in it
+    const renderer = useMemo<FrameSubscriber>(() => ({ callback: callbackRef, priority, site, tracker: createFrameBudgetTracker(), spent: 0 }), [priority, site]);
+
+    useFrame(state => {
+      if (!rendersFrame || haltedRef.current) return;
+      const start = performance.now();
+      try {
+        renderer.callback.current({ ...state, clock: clock.view }, frameStepRef.current);
+      } catch (err) {
+        haltOnFrameError(err);
+        return;
+      }
+      renderer.spent = performance.now() - start;
+      if (profilingRef.current) profiler.recordCallback(site ?? '', renderer.spent);
+      if (renderer.tracker.record(renderer.spent)) tripBudget(renderer);
+      renderer.spent = 0;
+    }, rendersFrame ? priority : 0);
+
+    return null;
+  }, [clock, profiler, haltOnFrameError, tripBudget]);
+
+  // Snapshot protocol: sims hand the host capture/restore functions for their state
+  const customUseSnapshot = useCallback((key: string, capture: () => unknown, restore: (state: any) => void) => {
+    const providerRef = useRef({ capture, restore });
+    providerRef.current = { capture, restore };
+
+    useLayoutEffect(() => timeTravel.register(key, {
+      capture: () => providerRef.current.capture(),
+      restore: state => providerRef.current.restore(state),
+    }), [key]);
+  }, [timeTravel]);
+
+  // Split layouts: extra orthographic views centred on the orbit target
+  const orthoViews = useMemo(() => createOrthoViews(), []);
+  const viewports = VIEWPORT_LAYOUTS[layout as ViewportLayout] ?? VIEWPORT_LAYOUTS.single;
+  const isSplit = viewports.length > 1;
+  const getViewTarget = useCallback(() => controlsRef.current?.target ?? new THREE.Vector3(), []);
+
+  // DOM labels (the sim's drei Html and the measurement labels) follow the perspective viewport
+  const perspectiveViewportRef = useRef<Viewport | null>(null);
+  perspectiveViewportRef.current = viewports.find(viewport => viewport.kind === 'perspective') ?? null;
+  const htmlPlacement = useMemo(() => viewportHtmlPosition(() => perspectiveViewportRef.current), []);
+
+  const updateCamera = useCallback((_: RootState, delta: number) => rig.update(delta), [rig]);
+
+  // Adaptive quality (see quality.ts); sims follow the same level through useQuality()
+  const [qualityLevel, setQualityLevel] = useState(quality.level);
+  useEffect(() => quality.subscribe(setQualityLevel), [quality]);
+  useEffect(() => quality.setMode(qualityMode as QualityMode), [quality, qualityMode]);
+  const qualitySettings = QUALITY_SETTINGS[qualityLevel];
+
+  const customUseQuality = useCallback(() => {
+    const [level, setLevel] = useState(quality.level);
+    useEffect(() => quality.subscribe(setLevel), []);
+    return { level, detail: QUALITY_SETTINGS[level].detail };
+  }, [quality]);
+
+  // Camera hooks: sims tag followable objects and may ask for their own starting view
+  const customUseCameraTarget = useCallback((name: string, target: React.RefObject<any> | (() => any)) => {
+    const targetRef = useRef(target);
+    targetRef.current = target;
+
+    useLayoutEffect(() => rig.registerTarget(name, () => {
+      const current = targetRef.current;
+      return typeof current === 'function' ? current() : current?.current;
+    }), [name]);
+  }, [rig]);
+
+  const customUseInitialCamera = useCallback((camera: InitialCamera) => {
+    useLayoutEffect(() => { rig.setInitial(camera); }, []);
+  }, [rig]);
+
+  // Telemetry: sims publish values (or getters) that the host samples after each step
+  const customUseProbe = useCallback((name: string, value: number | (() => number), options?: { unit?: string }) => {
+    const valueRef = useRef(value);
+    valueRef.current = value;
+    const unit = options?.unit;
+
+    useLayoutEffect(() => probes.register(name, () => {
+      const current = valueRef.current;
+      return typeof current === 'function' ? current() : current;
+    }, unit), [name, unit]);
+  }, [probes]);
+
+  // Conservation checks; each invariant's drift is also published as a probe
+  const customUseInvariant = useCallback((name: string, read: () => unknown, options?: InvariantOptions, deps?: readonly unknown[]) => {
+    const readRef = useRef(read);
+    readRef.current = read;
+    const { tolerance, unit, scale } = options ?? {};
+
+    useLayoutEffect(() => {
+      const unregister = invariants.register(name, () => readRef.current(), { tolerance, unit, scale });
+      const unregisterProbe = probes.register(`${name} drift`, () => invariants.drift(name) * 100, '%');
+      return () => { unregister(); unregisterProbe(); };
+    }, [name, tolerance, unit, scale, ...(deps ?? [])]);
+  }, [invariants, probes]);
+
+  // Analytic solutions: t counts from the (re-)registration, like the sim's own reset
+  const customUseAnalytic = useCallback((name: string, solution: (t: number) => unknown, options?: AnalyticOptions, deps?: readonly unknown[]) => {
+    const solutionRef = useRef(solution);
+    solutionRef.current = solution;
+    const actualRef = useRef(options?.actual);
+    actualRef.current = options?.actual;
+    const { unit, color, duration } = options ?? {};
+    const compared = Boolean(options?.actual);
+
+    useLayoutEffect(() => analytics.register(name, t => solutionRef.current(t), {
+      actual: compared ? () => actualRef.current?.() : undefined,
+      unit,
+      color,
+      duration,
+    }, clock.time), [name, unit, color, duration, compared, ...(deps ?? [])]);
+  }, [analytics, clock]);
+
+  // Formulas typed in the plot panel, one per probe; t is the simulation time
+  const userTheoriesRef = useRef(new Map<string, () => void>());
+
+  const setUserTheory = useCallback((probe: string, expression: string | null): string | null => {
+    userTheoriesRef.current.get(probe)?.();
+    userTheoriesRef.current.delete(probe);
+    if (!expression?.trim()) return null;
+
+    let formula: ReturnType<typeof compileFormula>;
     try {
-      return compileComponent(code, { useFrame: customUseFrame });
+      formula = compileFormula(expression, Object.keys(captureControlValues()));
+      if (!Number.isFinite(Number(formula(0, captureControlValues())))) return 'The formula does not give a number at t = 0';
     } catch (err: any) {
-      onError(err.message || "Compilation failed");
-      return null;
+      return err instanceof FormulaError ? err.message : 'Invalid formula';
+    }
+    const unregister = analytics.register(probe, t => formula(t, captureControlValues()), { unit: probes.unitOf(probe) });
+    userTheoriesRef.current.set(probe, unregister);
+    return null;
+  }, [analytics, probes]);
+
+  // Save & resume: the snapshot providers hold the sim's state, leva and the
+  // orbit controls the rest of the moment
+  const initialStateRef = useRef(initialState);
+  initialStateRef.current = initialState;
+  const resumeRef = useRef<{ state: SavedSimState; frames: number } | null>(null);
+
+  saveStateRef.current = (target: SaveTarget) => {
+    if (!onSaveState) return;
+    const { time, states } = timeTravel.snapshot();
+    onSaveState({
+      time,
+      states,
+      controls: captureControlValues(),
+      camera: captureCameraPose(controlsRef.current),
+      measurements: measurements.items.slice(),
+      savedAt: Date.now(),
+    }, target);
+  };
+
+  // Screenshot: one extra render at the chosen size (see screenshot.ts)
+  saveScreenshotRef.current = () => {
+    const three = threeRef.current?.();
+    if (!three) return;
+    const name = title || 'Simulation';
+    const values = formatControlValues(captureControlValues());
+    const lines = caption ? [name, values ? `${formatSimTime(clock.time)} · ${values}` : formatSimTime(clock.time)] : [];
+
+    captureScreenshot(three.gl, three.scene, three.camera, { resolution: resolution as ScreenshotResolution, transparent, caption: lines })
+      .then(blob => downloadBlob(blob, `${toFilename(name)}_t${clock.time.toFixed(2)}s.png`))
+      .catch(err => console.error("Screenshot failed", err));
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target?.tagName ?? '')) return;
+      if (e.shiftKey && !e.ctrlKey && !e.metaKey && !e.altKey && e.code === 'KeyS') {
+        e.preventDefault();
+        saveScreenshotRef.current();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Short messages for actions that could not run (a click that does nothing needs a reason)
+  const [notice, setNotice] = useState<string | null>(null);
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const showNotice = useCallback((message: string) => {
+    setNotice(message);
+    clearTimeout(noticeTimerRef.current);
+    noticeTimerRef.current = setTimeout(() => setNotice(null), NOTICE_MS);
+  }, []);
+
+  useEffect(() => () => clearTimeout(noticeTimerRef.current), []);
+
+  // Probe data export: rows arrive with the probe samples; a finished capture is downloaded
+  const [dataStatus, setDataStatus] = useState(dataRecorder.status);
+  const exportDataRef = useRef<() => void>(() => {});
+
+  exportDataRef.current = () => {
+    const units: Record<string, string> = {};
+    probes.names().forEach(name => { const unit = probes.unitOf(name); if (unit) units[name] = unit; });
+    const capture = dataRecorder.capture(title || 'Simulation', units);
+    if (capture.rows.length === 0) {
+      showNotice('The probe recording captured no samples, so there is nothing to export');
+      return;
+    }
+    const format = dataFormat as DataFormat;
+    const blob = new Blob([formatDataCapture(capture, format)], { type: DATA_FORMAT_TYPES[format].mimeType });
+    downloadBlob(blob, `${toFilename(capture.simulation)}_probes${DATA_FORMAT_TYPES[format].extension}`);
+  };
+
+  useEffect(() => dataRecorder.subscribe(status => {
+    setDataStatus(status);
+    if (status.state === 'done') exportDataRef.current();
+  }), [dataRecorder]);
+
+  useEffect(() => probes.onSample((time, values) => {
+    if (dataRecorder.active) dataRecorder.record(time, values, captureControlValues);
+  }), [probes, dataRecorder]);
+
+  startDataRef.current = () => {
+    if (probes.names().length === 0) {
+      showNotice('Nothing to record: this simulation publishes no probes');
+      return;
+    }
+    if (dataWindowed && dataTo <= dataFrom) {
+      showNotice('The recording window is empty: t1 must be after t0');
+      return;
+    }
+    if (dataWindowed && dataTo <= clock.time) {
+      showNotice(`t1 (${dataTo.toFixed(1)} s) has already passed; rewind or raise t1`);
+      return;
+    }
+    dataRecorder.start(dataWindowed ? { every: dataRate, from: dataFrom, to: dataTo } : { every: dataRate });
+  };
+
+  stopDataRef.current = () => {
+    if (!dataRecorder.active) {
+      showNotice('No probe recording is running; start one with Record Probes');
+      return;
     }
-  }, [code, onError, customUseFrame]);
+    dataRecorder.stop();
+  };
 
-  if (!Component) return null;
+  // Stroboscope: ghosts of the tagged objects at equal steps of simulated time
+  const [strobeStatus, setStrobeStatus] = useState<StrobeStatus>(strobe.status);
+  useEffect(() => strobe.subscribe(status => {
+    setStrobeStatus(status);
+    if (status.state === 'frozen' && status.skipped > 0) showNotice(`Stroboscope left out ${status.skipped} skinned mesh exposure${status.skipped === 1 ? '' : 's'}`);
+  }), [strobe, showNotice]);
+
+  startStrobeRef.current = () => {
+    if (rig.resolveTargets().length === 0) {
+      showNotice('Nothing to capture: this simulation tags no objects for the stroboscope');
+      return;
+    }
+    strobe.start(clock.time, { interval: strobeInterval, window: strobeWindow });
+  };
+
+  // Video recording (see recorder.ts). The frame loop reads the ref; the state drives the UI.
+  const [recorder, setRecorder] = useState<CanvasRecorder | null>(null);
+  const [recording, setRecording] = useState<RecordingResult | null>(null);
+  const recorderRef = useRef<CanvasRecorder | null>(null);
+  const captureQueuedRef = useRef(false);
+
+  startRecordingRef.current = () => {
+    const three = threeRef.current?.();
+    if (recorderRef.current || !three) return;
+    if (!isRecordingSupported()) {
+      showNotice('This browser cannot record the canvas');
+      return;
+    }
+    const next = createCanvasRecorder(three.gl.domElement, { fps: recordFps, offline: recordOffline });
+    recorderRef.current = next;
+    setRecorder(next);
+    setRecording(null);
+  };
+
+  const stopRecording = useCallback(() => {
+    const active = recorderRef.current;
+    if (!active) return;
+    recorderRef.current = null;
+    captureQueuedRef.current = false;
+    setRecorder(null);
+    active.stop().then(setRecording);
+  }, []);
+
+  // Offline frames are handed to the recorder once R3F has rendered them
+  useEffect(() => addAfterEffect(() => {
+    if (!captureQueuedRef.current) return;
+    captureQueuedRef.current = false;
+    recorderRef.current?.captureFrame();
+  }), []);
+
+  useEffect(() => () => { recorderRef.current?.stop(); }, []);
+
+  // Offline recording frames are slow on purpose; they say nothing about the scene's cost
+  const watchQuality = useCallback((_: RootState, delta: number) => {
+    if (!recorderRef.current?.offline) quality.sample(delta * 1000);
+  }, [quality]);
+
+  useEffect(() => {
+    const gl = threeRef.current?.().gl;
+    if (!showPerformance || !gl) return;
+    // Count every render of the frame (split layouts render once per viewport)
+    gl.info.autoReset = false;
+    gl.info.reset();
+    return () => { gl.info.autoReset = true; };
+  }, [showPerformance]);
+
+  useEffect(() => addAfterEffect(() => {
+    const gl = profilingRef.current ? threeRef.current?.().gl : null;
+    if (!gl) return;
+    profiler.endFrame(gl.info);
+    gl.info.reset();
+  }), [profiler]);
+
+  const exportProfile = useCallback(() => {
+    const summary = profiler.summary(title || 'Simulation', site => {
+      const location = sourceMapRef.current?.fromStack(site);
+      return location ? `${location.file ? `${location.file}:` : 'line '}${location.line}` : 'unknown';
+    });
+    const blob = new Blob([JSON.stringify(summary, null, 2)], { type: "application/json" });
+    downloadBlob(blob, `${toFilename(title || 'simulation')}_profile.json`);
+  }, [profiler, title]);
+
+  const runFrame = useCallback((state: RootState, delta: number) => {
+    frameStepRef.current = 0;
+    const resume = resumeRef.current;
+    const offlineRecorder = recorderRef.current?.offline ? recorderRef.current : null;
+    if (resume) {
+      // Physics waits until the saved moment is fully restored
+      resume.frames++;
+      if (resume.frames === RESUME_SETTLE_FRAMES) applyControlValues(resume.state.controls);
+      if (resume.frames === 2 * RESUME_SETTLE_FRAMES) {
+        timeTravel.resume({ time: resume.state.time, states: resume.state.states });
+        applyCameraPose(controlsRef.current, resume.state.camera);
+        resumeRef.current = null;
+      }
+    } else if (timeTravel.mode !== 'live') {
+      // Rewound: the timeline owns the state; only a replay moves it
+      timeTravel.advanceReplay(delta);
+    } else if (offlineRecorder && !offlineRecorder.wantsFrame) {
+      // Offline recording: the previous frame is still being recorded; the sim waits
+    } else if (!haltedRef.current) {
+      if (offlineRecorder) {
+        offlineRecorder.beginFrame();
+        captureQueuedRef.current = true;
+      }
+      const { calls, dt } = clock.advance(offlineRecorder ? 1 / offlineRecorder.fps : delta);
+      frameStepRef.current = calls * dt;
+      const subscribers = subscribersRef.current.slice();
+      const frameState = { ...state, clock: clock.view }; // sims read simulated time from state.clock
+
+      for (let i = 0; i < calls && !haltedRef.current; i++) {
+        clock.tick();
+        for (const subscriber of subscribers) {
+          const start = performance.now();
+          try {
+            subscriber.callback.current(frameState, dt);
+          } catch (err) {
+            haltOnFrameError(err);
+            break;
+          }
+          subscriber.spent += performance.now() - start;
+        }
+        if (strobe.capturing) strobe.sample(clock.time, rig.resolveTargets());
+        analytics.update(clock.time);
+        invariants.check(clock.time);
+        probes.sample(clock.time);
+      }
+
+      if (calls > 0 && !haltedRef.current) {
+        const tripped = subscribers.find(subscriber => subscriber.tracker.record(subscriber.spent));
+        if (tripped) tripBudget(tripped);
+      }
+      subscribers.forEach(subscriber => {
+        if (profilingRef.current) profiler.recordCallback(subscriber.site ?? '', subscriber.spent);
+        subscriber.spent = 0;
+      });
+      if (calls > 0 && !haltedRef.current) timeTravel.afterStep();
+    }
+
+    // Written directly: re-rendering React every frame for a label is not worth it
+    if (readoutRef.current) readoutRef.current.textContent = formatSimTime(clock.time);
+  }, [clock, timeTravel, strobe, rig, profiler, probes, invariants, analytics, haltOnFrameError, tripBudget]);
+
+  // Compile Code (async: Babel runs in a worker)
+  const [compiled, setCompiled] = useState<CompiledSimulation | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [typeDiagnostics, setTypeDiagnostics] = useState<CodeDiagnostic[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCompiled(null);
+    setFailed(false);
+    setTypeDiagnostics([]);
+    clock.reset();
+    timeTravel.reset();
+    strobe.clear();
+    profiler.reset();
+    probes.reset();
+    dataRecorder.discard();
+    invariants.reset();
+    userTheoriesRef.current.forEach(unregister => unregister());
+    userTheoriesRef.current.clear();
+    measurements.load(initialStateRef.current?.measurements ?? []);
+
+    const hostPlugins = [
+      { name: 'frame-gatekeeper', hooks: { useFrame: () => customUseFrame } },
+      { name: 'time-travel', hooks: { useSnapshot: () => customUseSnapshot } },
+      { name: 'camera-rig', hooks: { useCameraTarget: () => customUseCameraTarget, useInitialCamera: () => customUseInitialCamera } },
+      { name: 'quality', hooks: { useQuality: () => customUseQuality } },
+      { name: 'viewports', hooks: { Html: (current: typeof Html) => withHtmlPlacement(current, htmlPlacement) } },
+      { name: 'probes', hooks: { useProbe: () => customUseProbe, useInvariant: () => customUseInvariant, useAnalytic: () => customUseAnalytic } },
+    ];
+
+    compileComponent(code, { files, entry, typeCheck: typeCheckModeFor(trusted), plugins: hostPlugins })
+      .then((result) => {
+        if (cancelled) return;
+        sourceMapRef.current = result.sourceMap;
+        const saved = initialStateRef.current;
+        resumeRef.current = saved ? { state: saved, frames: 0 } : null;
+        setCompiled(result);
+        result.typeDiagnostics.then(diagnostics => { if (!cancelled) setTypeDiagnostics(diagnostics); });
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        setFailed(true);
+        if (err instanceof CompileError) onError(err.message, err.diagnostics);
+        else onError(err.message || "Compilation failed");
+      });
+
+    return () => { cancelled = true; };
+  }, [code, files, entry, trusted, onError, customUseFrame, customUseSnapshot, customUseCameraTarget, customUseInitialCamera, customUseQuality, customUseProbe, customUseInvariant, customUseAnalytic, htmlPlacement, clock, timeTravel, strobe, profiler, measurements, probes, dataRecorder, invariants]);
+
+  if (failed) return null;
 
   return (
-    <div className="w-full h-full relative" id="sim-container">
-      <Canvas shadows dpr={[1, 2]} className="w-full h-full bg-black block">
-        {/* 1. CAMERA & CONTROLS */}
-        <PerspectiveCamera makeDefault position={[0, 6, 18]} fov={50} />
-        <OrbitControls ref={controlsRef} makeDefault target={[0, 0, 0]} />
+    <div className="w-full h-full flex flex-col">
+      <div className="flex-1 min-h-0 relative" id="sim-container">
+        <Canvas shadows={qualitySettings.shadows} dpr={qualitySettings.dpr} className="w-full h-full bg-black block" onCreated={state => { threeRef.current = state.get; }}>
+          <FrameDriver onFrame={runFrame} />
+          <FrameDriver onFrame={updateCamera} />
+          <FrameDriver onFrame={watchQuality} />
+          <primitive object={strobe.layer} />
+          <primitive object={analytics.layer} />
+          <MeasureLayer measurements={measurements} placement={htmlPlacement} />
+
+          {/* 1. CAMERA & CONTROLS (moved by the rig after the sim has stepped) */}
+          <PerspectiveCamera makeDefault position={DEFAULT_CAMERA.position} fov={50} />
+          <OrbitControls ref={attachControls} makeDefault target={DEFAULT_CAMERA.target} />
+          {isSplit && <ViewportRenderer viewports={viewports} orthoViews={orthoViews} getTarget={getViewTarget} />}
         
-        {/* 2. BASE ENVIRONMENT (Always Visible) */}
-        <ambientLight intensity={0.4} />
-        <pointLight position={[10, 10, 10]} intensity={1} castShadow />
-        <Environment preset="city" />
-        <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+          {/* 2. BASE ENVIRONMENT (Always Visible) */}
+          <ambientLight intensity={0.4} />
+          <pointLight position={[10, 10, 10]} intensity={1} castShadow={qualitySettings.shadows} />
+          {qualitySettings.environment && <Environment preset="city" />}
+          {qualitySettings.stars > 0 && <Stars radius={100} depth={50} count={qualitySettings.stars} factor={4} saturation={0} fade speed={1} />}
         
-        {/* 3. REFERENCE FLOOR (Guarantees visual context) */}
-        <Grid 
-           args={[20, 20]} 
-           cellColor="#334155" 
-           sectionColor="#475569" 
-           fadeDistance={30} 
-           position={[0, -0.01, 0]} 
-        />
+          {/* 3. REFERENCE FLOOR (Guarantees visual context) */}
+          <Grid 
+             args={[20, 20]} 
+             cellColor="#334155" 
+             sectionColor="#475569" 
+             fadeDistance={30} 
+             position={[0, -0.01, 0]} 
+          />
         
-        {/* 4. DYNAMIC CONTENT */}
-        <group position={[0, 0, 0]}>
-          <ErrorBoundary>
-            <SceneContent Component={Component} />
-          </ErrorBoundary>
-        </group>
-      </Canvas>
+          {/* 4. DYNAMIC CONTENT */}
+          <group position={[0, 0, 0]}>
+            {budgetTrip && <BudgetOverlay trip={budgetTrip} code={code} files={files} onResume={resumeFromBudgetTrip} />}
+            {frameError ? (
+              <ErrorFallback error={frameError} code={code} files={files} sourceMap={compiled?.sourceMap} typeDiagnostics={typeDiagnostics} />
+            ) : (
+              <ErrorBoundary code={code} files={files} sourceMap={compiled?.sourceMap} typeDiagnostics={typeDiagnostics}>
+                {compiled && <SceneContent Component={compiled.Component} />}
+              </ErrorBoundary>
+            )}
+          </group>
+        </Canvas>
+        {isSplit && <ViewportOverlays viewports={viewports} orthoViews={orthoViews} />}
+        <div className="absolute top-16 left-4 z-10 pointer-events-none bg-zinc-900/80 backdrop-blur-md border border-zinc-800 px-3 py-1 rounded-full shadow-lg flex items-center gap-2 text-[11px] font-mono text-zinc-400">
+          <Timer size={11} className="text-[#a78bfa]" />
+          <span ref={readoutRef} className="text-zinc-200">{formatSimTime(0)}</span>
+          <span>{timeScale.toFixed(2)}×</span>
+          {paused && <span className="text-amber-400">paused</span>}
+          {qualityLevel !== 'high' && <span title="Quality lowered (System › View › Quality)">{qualityLevel} quality</span>}
+          {strobeStatus.state === 'capturing' && <span className="text-amber-400 animate-pulse">strobe</span>}
+          {strobeStatus.state === 'frozen' && <span className="text-[#a78bfa]">strobe ×{strobeStatus.exposures}</span>}
+        </div>
+        {showCompileCache && <CompileCachePanel />}
+        {notice && (
+          <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-20 pointer-events-none flex items-center gap-2 bg-zinc-900/90 backdrop-blur-md border border-amber-500/40 px-3 py-1.5 rounded-full shadow-lg text-xs text-amber-200">
+            <AlertTriangle size={12} className="text-amber-400 shrink-0" /> {notice}
+          </div>
+        )}
+        <InvariantsPanel invariants={invariants} />
+        {showPerformance && <PerformanceHud profiler={profiler} onExport={exportProfile} />}
+        <RecordingControls
+          recorder={recorder}
+          result={recording}
+          onStop={stopRecording}
+          onDownload={() => recording && downloadBlob(recording.blob, `${toFilename(title || 'simulation')}.webm`)}
+          onAttach={onAttachRecording && (() => {
+            if (recording) onAttachRecording(recording.blob, recording.duration);
+            setRecording(null);
+          })}
+          onDismiss={() => setRecording(null)}
+        />
+        <MeasureToolbar measurements={measurements} getTime={getSimTime} canPick={viewports.some(viewport => viewport.kind === 'perspective')} />
+        <CameraMenu rig={rig} bookmarks={bookmarks} onBookmarksChange={onBookmarksChange} />
+        <Timeline timeTravel={timeTravel} />
+      </div>
+      <ProbePanel probes={probes} recording={dataStatus} onTheory={setUserTheory} />
     </div>
   );
-});
\ No newline at end of file
+};
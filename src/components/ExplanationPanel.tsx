@@ -1,12 +1,15 @@
 
 import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { BookOpen, GraduationCap, Link as LinkIcon, MessageCircle, Send, BrainCircuit } from 'lucide-react';
+import { BookOpen, GraduationCap, Link as LinkIcon, MessageCircle, Send, BrainCircuit, Video, Download, Trash2 } from 'lucide-react';
+import { SimulationRecording } from '../types';
 
 interface ExplanationPanelProps {
   title: string;
   content: string;
   sources?: { title: string; uri: string }[];
+  recordings?: SimulationRecording[];
+  onRemoveRecording?: (recording: SimulationRecording) => void;
   onAskQuestion?: (question: string) => void;
   isAnswering?: boolean;
 }
@@ -15,6 +18,8 @@ export const ExplanationPanel: React.FC<ExplanationPanelProps> = ({
   title, 
   content, 
   sources, 
+  recordings,
+  onRemoveRecording,
   onAskQuestion, 
   isAnswering = false 
 }) => {
@@ -109,6 +114,34 @@ export const ExplanationPanel: React.FC<ExplanationPanelProps> = ({
              </ul>
           </div>
         )}
+
+        {/* Recordings Section */}
+        {recordings && recordings.length > 0 && (
+          <div className="mt-8 pt-6 border-t border-zinc-800">
+             <h4 className="text-sm font-semibold text-zinc-300 mb-3 flex items-center gap-2">
+               <Video className="w-4 h-4 text-[#6B26D9]" />
+               Recordings
+             </h4>
+             <ul className="space-y-4">
+               {recordings.map((recording) => (
+                 <li key={recording.id}>
+                   <video src={recording.url} controls className="w-full rounded-lg border border-zinc-800 bg-black" />
+                   <div className="flex items-center gap-2 mt-1.5 text-xs text-zinc-500">
+                     <span className="truncate">{new Date(recording.createdAt).toLocaleTimeString()} · {recording.duration.toFixed(1)} s · {(recording.size / 1024 / 1024).toFixed(1)} MB</span>
+                     <a href={recording.url} download={recording.name} className="ml-auto flex items-center gap-1 text-[#a78bfa] hover:text-white transition-colors">
+                       <Download className="w-3.5 h-3.5" /> WebM
+                     </a>
+                     {onRemoveRecording && (
+                       <button onClick={() => onRemoveRecording(recording)} title="Delete recording" className="text-zinc-500 hover:text-red-400 transition-colors">
+                         <Trash2 className="w-3.5 h-3.5" />
+                       </button>
+                     )}
+                   </div>
+                 </li>
+               ))}
+             </ul>
+          </div>
+        )}
       </div>
 
       {/* Feynman Tutor Input */}
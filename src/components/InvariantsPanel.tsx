@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CircleCheck } from 'lucide-react';
+import { InvariantChecker, InvariantStatus, formatDrift } from '../utils/invariants';
+
+const POLL_MS = 250;
+
+const Chip = ({ status }: { status: InvariantStatus }) => {
+  const violated = status.violatedAt !== null;
+  const warming = !violated && status.drift > status.tolerance / 2;
+  const color = violated ? 'border-red-500/50 text-red-300' : warming ? 'border-amber-500/40 text-amber-300' : 'border-zinc-800 text-zinc-300';
+  const title = [
+    `${status.name}${status.unit ? ` (${status.unit})` : ''}: tolerance ${formatDrift(status.tolerance)}`,
+    `max drift ${formatDrift(status.maxDrift)}`,
+    violated ? `exceeded at t = ${status.violatedAt!.toFixed(2)} s` : '',
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <span title={title} className={`flex items-center gap-1.5 bg-zinc-900/85 backdrop-blur-md border px-2.5 py-1 rounded-full shadow-lg ${color}`}>
+      {violated ? <AlertTriangle size={11} /> : <CircleCheck size={11} className="text-emerald-400" />}
+      <span>{status.name}</span>
+      <span className="text-zinc-500">Δ</span>
+      <span>{status.baseline === null ? '–' : formatDrift(status.drift)}</span>
+    </span>
+  );
+};
+
+/**
+ * Drift of each declared invariant relative to its baseline. Amber past half
+ * the tolerance, red once it has been exceeded.
+ */
+export const InvariantsPanel: React.FC<{ invariants: InvariantChecker }> = ({ invariants }) => {
+  const [statuses, setStatuses] = useState(invariants.statuses);
+
+  useEffect(() => {
+    const refresh = () => setStatuses(invariants.statuses());
+    const unsubscribe = invariants.subscribe(refresh);
+    const id = setInterval(refresh, POLL_MS);
+    return () => { unsubscribe(); clearInterval(id); };
+  }, [invariants]);
+
+  if (statuses.length === 0) return null;
+
+  return (
+    <div className="absolute top-16 left-1/2 -translate-x-1/2 z-10 flex flex-wrap justify-center gap-1.5 text-[11px] font-mono">
+      {statuses.map(status => <Chip key={status.name} status={status} />)}
+    </div>
+  );
+};
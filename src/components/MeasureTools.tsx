@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { RootState, useThree } from '@react-three/fiber';
+import { Html, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { DraftingCompass, Ruler, Timer, Trash2, X } from 'lucide-react';
+import { Measurement } from '../types';
+import { MeasureTool, Measurements, formatMeasurement } from '../utils/measurements';
+import { HtmlPlacement } from './Viewports';
+
+const ACCENT = '#a78bfa';
+const CLICK_TOLERANCE_PX = 4; // further than this between press and release is an orbit drag
+const POLL_MS = 100;
+const GROUND = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const noRaycast = () => {};
+
+const TOOL_HINTS: Record<MeasureTool, string> = {
+  ruler: 'Click two points',
+  protractor: 'Click three points, vertex second',
+};
+
+/** Re-renders the caller whenever the measurements change. */
+const useMeasurements = (measurements: Measurements) => {
+  const [, setVersion] = useState(0);
+  useEffect(() => measurements.subscribe(() => setVersion(v => v + 1)), [measurements]);
+};
+
+// --- Picking (inside the Canvas) ---
+
+const isShown = (object: THREE.Object3D | null): boolean => !object || (object.visible && isShown(object.parent));
+
+// drei grids draw a horizontal plane in the shader from a vertical plane geometry,
+// so a CPU raycast would hit the wrong plane; the ground plane stands in for them
+const isShaderGrid = (object: THREE.Object3D) =>
+  'sectionColor' in (((object as THREE.Mesh).material as THREE.ShaderMaterial)?.uniforms ?? {});
+
+const pickPoint = (state: RootState, event: PointerEvent) => {
+  state.events.compute?.(event, state);
+  const hit = state.raycaster
+    .intersectObjects(state.scene.children, true)
+    .find(({ object }) => (object as THREE.Mesh).isMesh && !isShaderGrid(object) && isShown(object));
+  return hit ? hit.point.clone() : state.raycaster.ray.intersectPlane(GROUND, new THREE.Vector3());
+};
+
+const Marker = ({ point }: { point: THREE.Vector3Tuple }) => (
+  <mesh position={point} raycast={noRaycast} renderOrder={10}>
+    <sphereGeometry args={[0.08, 12, 12]} />
+    <meshBasicMaterial color={ACCENT} depthTest={false} transparent />
+  </mesh>
+);
+
+const Label = ({ position, text, onRemove, placement }: {
+  position: THREE.Vector3Tuple; text: string; onRemove?: () => void; placement?: HtmlPlacement;
+}) => (
+  <Html position={position} center calculatePosition={placement}>
+    <div className="flex items-center gap-1.5 whitespace-nowrap bg-zinc-950/85 border border-[#6B26D9]/60 px-2 py-0.5 rounded-full text-[11px] font-mono text-zinc-100 shadow-lg">
+      {text}
+      {onRemove && (
+        <button onClick={onRemove} title="Remove measurement" className="text-zinc-500 hover:text-white transition-colors">
+          <X size={10} />
+        </button>
+      )}
+    </div>
+  </Html>
+);
+
+const Annotation = ({ measurement, onRemove, placement }: { measurement: Measurement; onRemove: () => void; placement?: HtmlPlacement }) => {
+  if (measurement.kind === 'interval') return null;
+  const { points } = measurement;
+  const anchor: THREE.Vector3Tuple = measurement.kind === 'distance'
+    ? new THREE.Vector3(...points[0]).lerp(new THREE.Vector3(...points[1]), 0.5).toArray()
+    : points[1];
+  return (
+    <group>
+      <Line points={points} color={ACCENT} lineWidth={2} depthTest={false} raycast={noRaycast} renderOrder={10} />
+      {points.map((point, i) => <Marker key={i} point={point} />)}
+      <Label position={anchor} text={formatMeasurement(measurement)} onRemove={onRemove} placement={placement} />
+    </group>
+  );
+};
+
+/**
+ * Picks points for the active tool and draws every measurement as a 3D
+ * annotation. A click picks the nearest visible mesh, or the ground plane
+ * (y = 0, the reference grid) when nothing is under the pointer. Labels use
+ * `placement` so they follow the perspective viewport of split layouts.
+ */
+export const MeasureLayer: React.FC<{ measurements: Measurements; placement?: HtmlPlacement }> = ({ measurements, placement }) => {
+  useMeasurements(measurements);
+  const gl = useThree(state => state.gl);
+  const get = useThree(state => state.get);
+  const { tool, pending, items } = measurements;
+
+  useEffect(() => {
+    if (!tool) return;
+    const canvas = gl.domElement;
+    let pressed: { x: number; y: number } | null = null;
+    const onPointerDown = (e: PointerEvent) => { pressed = { x: e.clientX, y: e.clientY }; };
+    const onPointerUp = (e: PointerEvent) => {
+      if (!pressed || e.button !== 0) return;
+      const moved = Math.hypot(e.clientX - pressed.x, e.clientY - pressed.y);
+      pressed = null;
+      if (moved > CLICK_TOLERANCE_PX) return;
+      const point = pickPoint(get(), e);
+      if (point) measurements.pick(point);
+    };
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointerup', onPointerUp);
+    canvas.style.cursor = 'crosshair';
+    return () => {
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      canvas.style.cursor = '';
+    };
+  }, [tool, gl, get, measurements]);
+
+  return (
+    <group>
+      {items.map((measurement, i) => <Annotation key={i} measurement={measurement} onRemove={() => measurements.remove(i)} placement={placement} />)}
+      {pending.map((point, i) => <Marker key={`pending-${i}`} point={point} />)}
+      {pending.length > 1 && <Line points={pending.slice()} color={ACCENT} lineWidth={1.5} dashed depthTest={false} raycast={noRaycast} />}
+    </group>
+  );
+};
+
+// --- Toolbar (DOM, over the Canvas) ---
+
+const ToolButton = ({ active, onClick, title, disabled, children }: {
+  active: boolean; onClick: () => void; title: string; disabled?: boolean; children: React.ReactNode;
+}) => (
+  <button
+    onClick={onClick}
+    title={title}
+    disabled={disabled}
+    className={`flex items-center gap-1 px-2 py-0.5 rounded border transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+      active ? 'bg-[#6B26D9]/30 border-[#6B26D9]/60 text-white' : 'border-transparent text-zinc-400 hover:text-white hover:bg-zinc-800'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Ruler, protractor and stopwatch. Stopwatch results are listed here; the
+ * other measurements are labelled in the scene. Points are picked in the
+ * perspective view, so `canPick` is false for layouts without one.
+ */
+export const MeasureToolbar: React.FC<{ measurements: Measurements; getTime: () => number; canPick?: boolean }> = ({ measurements, getTime, canPick = true }) => {
+  useMeasurements(measurements);
+  const { tool, pending, items, stopwatchStart } = measurements;
+  const [now, setNow] = useState(getTime);
+
+  useEffect(() => {
+    if (!canPick && measurements.tool) measurements.cancel();
+  }, [canPick, measurements]);
+
+  const pickHint = canPick ? '' : ' (needs the perspective view)';
+
+  useEffect(() => {
+    if (stopwatchStart === null) return;
+    const id = setInterval(() => setNow(getTime()), POLL_MS);
+    return () => clearInterval(id);
+  }, [stopwatchStart, getTime]);
+
+  useEffect(() => {
+    if (!tool) return;
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') measurements.cancel(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [tool, measurements]);
+
+  const intervals = items.map((measurement, index) => ({ measurement, index })).filter(({ measurement }) => measurement.kind === 'interval');
+
+  return (
+    <div className="absolute bottom-12 left-1/2 -translate-x-1/2 z-10 max-w-[60%] bg-zinc-900/90 backdrop-blur-md border border-zinc-800 px-2 py-1 rounded-full shadow-lg flex items-center gap-1 text-[11px] font-mono text-zinc-300">
+      <ToolButton active={tool === 'ruler'} onClick={() => measurements.toggleTool('ruler')} title={`Ruler: distance between two points${pickHint}`} disabled={!canPick}>
+        <Ruler size={12} /> Ruler
+      </ToolButton>
+      <ToolButton active={tool === 'protractor'} onClick={() => measurements.toggleTool('protractor')} title={`Protractor: angle at a vertex${pickHint}`} disabled={!canPick}>
+        <DraftingCompass size={12} /> Angle
+      </ToolButton>
+      <ToolButton active={stopwatchStart !== null} onClick={() => { const time = getTime(); setNow(time); measurements.toggleStopwatch(time); }} title="Stopwatch on the simulation clock">
+        <Timer size={12} />
+        {stopwatchStart === null ? 'Stopwatch' : `${Math.abs(now - stopwatchStart).toFixed(2)} s`}
+      </ToolButton>
+
+      {tool && <span className="px-1 text-zinc-500">{TOOL_HINTS[tool]} ({pending.length}) · Esc</span>}
+
+      {intervals.map(({ measurement, index }) => (
+        <span key={index} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-zinc-800 text-zinc-200">
+          {formatMeasurement(measurement)}
+          <button onClick={() => measurements.remove(index)} title="Remove" className="text-zinc-500 hover:text-white transition-colors">
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+
+      {(items.length > 0 || pending.length > 0) && (
+        <button onClick={() => measurements.clear()} title="Clear all measurements" className="px-1 text-zinc-500 hover:text-red-400 transition-colors">
+          <Trash2 size={12} />
+        </button>
+      )}
+    </div>
+  );
+};
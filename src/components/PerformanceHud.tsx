@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, Download, RotateCcw } from 'lucide-react';
+import { PROFILE_HISTORY, PerfSample, Profiler } from '../utils/profiler';
+
+const POLL_MS = 250;
+const GRAPH_WIDTH = 256;
+const GRAPH_HEIGHT = 56;
+const GRAPH_MIN_MS = 1000 / 30; // scale of the graph when every frame is fast
+const TARGET_MS = 1000 / 60;
+
+const formatCount = (value: number) =>
+  value >= 1e6 ? `${(value / 1e6).toFixed(1)}M` : value >= 1e3 ? `${(value / 1e3).toFixed(1)}k` : String(value);
+
+const formatHeap = (bytes: number | null) => (bytes === null ? 'n/a' : `${(bytes / 1024 / 1024).toFixed(0)} MB`);
+
+const toPoints = (samples: readonly PerfSample[], pick: (sample: PerfSample) => number, scaleMs: number) =>
+  samples
+    .map((sample, i) => {
+      const x = (i / (PROFILE_HISTORY - 1)) * GRAPH_WIDTH;
+      const y = GRAPH_HEIGHT - Math.min(1, pick(sample) / scaleMs) * GRAPH_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+const Stat = ({ label, value, className = 'text-zinc-200' }: { label: string; value: string; className?: string }) => (
+  <div>
+    <div className={className}>{value}</div>
+    <div className="text-zinc-600">{label}</div>
+  </div>
+);
+
+/**
+ * Live frame statistics with a short graph of frame time (violet) and time
+ * spent in the simulation's useFrame callbacks (amber). Polls the profiler
+ * instead of re-rendering from the frame loop.
+ */
+export const PerformanceHud: React.FC<{ profiler: Profiler; onExport: () => void }> = ({ profiler, onExport }) => {
+  const [samples, setSamples] = useState<readonly PerfSample[]>([]);
+
+  useEffect(() => {
+    const id = setInterval(() => setSamples(profiler.history().slice()), POLL_MS);
+    return () => clearInterval(id);
+  }, [profiler]);
+
+  const latest = samples[samples.length - 1];
+  // Averaged over the graph so the numbers are readable
+  const meanFrameMs = samples.length > 0 ? samples.reduce((sum, s) => sum + s.frameMs, 0) / samples.length : 0;
+  const meanSimMs = samples.length > 0 ? samples.reduce((sum, s) => sum + s.simMs, 0) / samples.length : 0;
+  const scaleMs = Math.max(GRAPH_MIN_MS, ...samples.map(s => s.frameMs));
+  const fps = meanFrameMs > 0 ? 1000 / meanFrameMs : 0;
+
+  return (
+    <div className="absolute bottom-12 right-4 z-20 w-72 bg-zinc-950/90 border border-zinc-800 rounded-lg backdrop-blur-md text-[11px] text-zinc-300 shadow-xl">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-800 font-semibold text-zinc-200">
+        <Activity size={12} className="text-[#a78bfa]" /> Performance
+        <span className="ml-auto font-mono text-zinc-500">{profiler.frames} frames</span>
+        <button onClick={() => { profiler.reset(); setSamples([]); }} title="Reset profile" className="text-zinc-500 hover:text-white transition-colors">
+          <RotateCcw size={12} />
+        </button>
+        <button onClick={onExport} title="Export profile summary" className="text-zinc-500 hover:text-white transition-colors">
+          <Download size={12} />
+        </button>
+      </div>
+      <div className="grid grid-cols-4 gap-1 px-3 py-2 font-mono text-center">
+        <Stat label="fps" value={fps.toFixed(0)} className={fps > 0 && fps < 30 ? 'text-amber-400' : 'text-white'} />
+        <Stat label="frame ms" value={meanFrameMs.toFixed(1)} className="text-[#a78bfa]" />
+        <Stat label="sim ms" value={meanSimMs.toFixed(1)} className="text-amber-400" />
+        <Stat label="heap" value={formatHeap(latest?.heapBytes ?? null)} />
+        <Stat label="draws" value={formatCount(latest?.drawCalls ?? 0)} />
+        <Stat label="triangles" value={formatCount(latest?.triangles ?? 0)} />
+        <Stat label="geometries" value={formatCount(latest?.geometries ?? 0)} />
+        <Stat label="textures" value={formatCount(latest?.textures ?? 0)} />
+      </div>
+      <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="mx-3 mb-2 block bg-zinc-900/60 rounded">
+        <line
+          x1={0} x2={GRAPH_WIDTH}
+          y1={GRAPH_HEIGHT - (TARGET_MS / scaleMs) * GRAPH_HEIGHT} y2={GRAPH_HEIGHT - (TARGET_MS / scaleMs) * GRAPH_HEIGHT}
+          stroke="#3f3f46" strokeDasharray="3 3"
+        />
+        <polyline points={toPoints(samples, s => s.frameMs, scaleMs)} fill="none" stroke="#a78bfa" strokeWidth={1.2} />
+        <polyline points={toPoints(samples, s => s.simMs, scaleMs)} fill="none" stroke="#fbbf24" strokeWidth={1.2} />
+      </svg>
+      <div className="px-3 pb-2 -mt-1 font-mono text-zinc-600">scale {scaleMs.toFixed(0)} ms · dashed 60 fps</div>
+    </div>
+  );
+};
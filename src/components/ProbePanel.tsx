@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, LineChart, Sigma } from 'lucide-react';
+import { ProbeSeries, Probes } from '../utils/probes';
+import { DataRecorderStatus } from '../utils/dataRecorder';
+
+const POLL_MS = 100;
+const COLORS = ['#a78bfa', '#2dd4bf', '#fbbf24', '#ef4444', '#60a5fa', '#f472b6'];
+
+type PlotMode = 'time' | 'xy' | 'phase';
+
+const MODE_LABELS: Record<PlotMode, string> = { time: 'Time', xy: 'X-Y', phase: 'Phase' };
+
+interface Curve {
+  color: string;
+  xs: number[];
+  ys: number[];
+  dashed?: boolean;
+}
+
+const range = (values: number[]): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(v => { if (v < min) min = v; if (v > max) max = v; });
+  if (min === Infinity) return [0, 1];
+  if (min === max) return [min - 1, max + 1];
+  const pad = (max - min) * 0.05;
+  return [min - pad, max + pad];
+};
+
+const formatTick = (value: number) =>
+  Math.abs(value) >= 1e4 || (Math.abs(value) < 1e-2 && value !== 0) ? value.toExponential(1) : String(Number(value.toFixed(2)));
+
+const withUnit = (series: ProbeSeries) => (series.unit ? `${series.name} (${series.unit})` : series.name);
+
+/** Pairs two series sampled on the same clock by their sample times. */
+const pairByTime = (x: ProbeSeries, y: ProbeSeries) => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < x.times.length && j < y.times.length) {
+    if (x.times[i] === y.times[j]) { xs.push(x.values[i++]); ys.push(y.values[j++]); }
+    else if (x.times[i] < y.times[j]) i++;
+    else j++;
+  }
+  return { xs, ys };
+};
+
+/** Value against its rate of change (central differences). */
+const phaseOf = (series: ProbeSeries) => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 1; i < series.values.length - 1; i++) {
+    const dt = series.times[i + 1] - series.times[i - 1];
+    if (dt <= 0) continue;
+    xs.push(series.values[i]);
+    ys.push((series.values[i + 1] - series.values[i - 1]) / dt);
+  }
+  return { xs, ys };
+};
+
+const Plot = ({ curves, xLabel, yLabel }: { curves: Curve[]; xLabel: string; yLabel: string }) => {
+  const [xMin, xMax] = range(curves.flatMap(c => c.xs));
+  const [yMin, yMax] = range(curves.flatMap(c => c.ys));
+  const toPoints = (curve: Curve) =>
+    curve.xs.map((x, i) => `${(((x - xMin) / (xMax - xMin)) * 100).toFixed(2)},${(100 - ((curve.ys[i] - yMin) / (yMax - yMin)) * 100).toFixed(2)}`).join(' ');
+
+  return (
+    <div className="relative flex-1 min-w-0 h-full bg-zinc-900/60 rounded border border-zinc-800">
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+        {yMin < 0 && yMax > 0 && (
+          <line x1={0} x2={100} y1={100 - (-yMin / (yMax - yMin)) * 100} y2={100 - (-yMin / (yMax - yMin)) * 100} stroke="#3f3f46" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+        )}
+        {curves.map((curve, i) => (
+          <polyline key={i} points={toPoints(curve)} fill="none" stroke={curve.color} strokeWidth={1.5} strokeDasharray={curve.dashed ? '4 3' : undefined} vectorEffect="non-scaling-stroke" />
+        ))}
+      </svg>
+      <span className="absolute top-1 left-1.5 text-zinc-500">{formatTick(yMax)}</span>
+      <span className="absolute bottom-1 left-1.5 text-zinc-500">{formatTick(yMin)}</span>
+      <span className="absolute bottom-1 left-1/2 -translate-x-1/2 text-zinc-500">{xLabel}: {formatTick(xMin)} … {formatTick(xMax)}</span>
+      <span className="absolute top-1 right-1.5 text-zinc-400">{yLabel}</span>
+    </div>
+  );
+};
+
+const Select = ({ value, onChange, names }: { value: string; onChange: (name: string) => void; names: string[] }) => (
+  <select
+    value={value}
+    onChange={e => onChange(e.target.value)}
+    className="bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-200 max-w-32"
+  >
+    {names.map(name => <option key={name} value={name}>{name}</option>)}
+  </select>
+);
+
+/**
+ * Plots the simulation's probes below the canvas: all series against
+ * simulated time, one probe against another, or one probe against its rate of
+ * change. Polls the probe store; it stops moving when the sim clock stops.
+ * Theory curves (see analytics.ts) are dashed in the colour of their probe;
+ * `onTheory` lets the user type one, returning an error message or null.
+ */
+export const ProbePanel: React.FC<{
+  probes: Probes;
+  recording?: DataRecorderStatus;
+  onTheory?: (probe: string, expression: string | null) => string | null;
+}> = ({ probes, recording, onTheory }) => {
+  const [names, setNames] = useState(probes.names);
+  const [series, setSeries] = useState<ProbeSeries[]>([]);
+  const [open, setOpen] = useState(true);
+  const [mode, setMode] = useState<PlotMode>('time');
+  const [hidden, setHidden] = useState<Set<string>>(() => new Set());
+  const [xName, setXName] = useState('');
+  const [yName, setYName] = useState('');
+  const [theoryOpen, setTheoryOpen] = useState(false);
+  const [theoryName, setTheoryName] = useState('');
+  const [expression, setExpression] = useState('');
+  const [theoryError, setTheoryError] = useState<string | null>(null);
+
+  useEffect(() => probes.subscribe(() => setNames(probes.names())), [probes]);
+
+  useEffect(() => {
+    if (!open) return;
+    let seen = -1;
+    const id = setInterval(() => {
+      if (probes.version === seen) return;
+      seen = probes.version;
+      setSeries(probes.series());
+    }, POLL_MS);
+    return () => clearInterval(id);
+  }, [probes, open]);
+
+  // Keep the X-Y and phase selections pointing at probes that exist
+  const x = names.includes(xName) ? xName : names[0] ?? '';
+  const y = names.includes(yName) ? yName : names[1] ?? names[0] ?? '';
+
+  const byName = useMemo(() => new Map(series.map(s => [s.name, s])), [series]);
+  const colorOf = (name: string) => {
+    const reference = byName.get(name)?.reference;
+    return COLORS[Math.max(0, names.indexOf(reference && names.includes(reference) ? reference : name)) % COLORS.length];
+  };
+
+  // Formulas go on measured probes, not on theory curves
+  const measured = names.filter(name => !byName.get(name)?.reference);
+  const theoryTarget = measured.includes(theoryName) ? theoryName : measured[0] ?? '';
+
+  if (names.length === 0) return null;
+
+  let plot: React.ReactNode = null;
+  if (mode === 'time') {
+    const shown = series.filter(s => !hidden.has(s.name));
+    const units = [...new Set(shown.map(s => s.unit).filter(Boolean))];
+    plot = <Plot curves={shown.map(s => ({ color: colorOf(s.name), xs: s.times, ys: s.values, dashed: Boolean(s.reference) }))} xLabel="t (s)" yLabel={units.join(', ')} />;
+  } else if (mode === 'xy') {
+    const sx = byName.get(x);
+    const sy = byName.get(y);
+    plot = sx && sy && <Plot curves={[{ color: colorOf(y), ...pairByTime(sx, sy) }]} xLabel={withUnit(sx)} yLabel={withUnit(sy)} />;
+  } else {
+    const sx = byName.get(x);
+    plot = sx && <Plot curves={[{ color: colorOf(x), ...phaseOf(sx) }]} xLabel={withUnit(sx)} yLabel={`d${sx.name}/dt`} />;
+  }
+
+  const toggleSeries = (name: string) => setHidden(prev => {
+    const next = new Set(prev);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    return next;
+  });
+
+  const applyTheory = (text: string | null) => {
+    if (!onTheory || !theoryTarget) return;
+    setTheoryError(onTheory(theoryTarget, text));
+    if (text === null) setExpression('');
+  };
+
+  return (
+    <div className={`shrink-0 flex flex-col bg-zinc-950 border-t border-zinc-800 text-[11px] font-mono text-zinc-400 ${open ? 'h-56' : 'h-8'}`}>
+      <div className="h-8 shrink-0 px-3 flex items-center gap-2">
+        <LineChart size={12} className="text-[#a78bfa]" />
+        <span className="font-sans font-semibold text-zinc-200">Probes</span>
+        {open && (
+          <>
+            <div className="flex items-center gap-0.5 ml-2">
+              {(Object.keys(MODE_LABELS) as PlotMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-2 py-0.5 rounded transition-colors ${mode === m ? 'bg-[#6B26D9]/30 text-white' : 'hover:text-white hover:bg-zinc-800'}`}
+                >
+                  {MODE_LABELS[m]}
+                </button>
+              ))}
+            </div>
+            {mode === 'xy' && (
+              <span className="flex items-center gap-1">
+                X <Select value={x} onChange={setXName} names={names} /> Y <Select value={y} onChange={setYName} names={names} />
+              </span>
+            )}
+            {mode === 'phase' && <Select value={x} onChange={setXName} names={names} />}
+          </>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {recording?.state === 'waiting' && <span className="text-amber-400">recording from t0…</span>}
+          {recording?.state === 'recording' && (
+            <span className="flex items-center gap-1.5 text-red-400">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" /> {recording.rows} rows
+            </span>
+          )}
+          {onTheory && open && (
+            <button
+              onClick={() => setTheoryOpen(o => !o)}
+              title="Compare a probe with a formula"
+              className={`transition-colors ${theoryOpen ? 'text-[#a78bfa]' : 'text-zinc-500 hover:text-white'}`}
+            >
+              <Sigma size={13} />
+            </button>
+          )}
+          <button onClick={() => setOpen(o => !o)} title={open ? 'Collapse' : 'Expand'} className="text-zinc-500 hover:text-white transition-colors">
+            {open ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+          </button>
+        </div>
+      </div>
+
+      {open && onTheory && theoryOpen && (
+        <div className="h-8 shrink-0 px-3 flex items-center gap-2">
+          <span className="text-zinc-500">Theory</span>
+          <Select value={theoryTarget} onChange={name => { setTheoryName(name); setTheoryError(null); }} names={measured} />
+          <span>=</span>
+          <input
+            value={expression}
+            onChange={e => { setExpression(e.target.value); setTheoryError(null); }}
+            onKeyDown={e => { if (e.key === 'Enter') applyTheory(expression); }}
+            placeholder="formula of t and the controls, e.g. 20 + 80 * exp(-k * t)"
+            spellCheck={false}
+            className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-1.5 py-0.5 text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-[#6B26D9]"
+          />
+          <button onClick={() => applyTheory(expression)} className="px-2 py-0.5 rounded bg-[#6B26D9]/30 text-white hover:bg-[#6B26D9]/50 transition-colors">Apply</button>
+          <button onClick={() => applyTheory(null)} className="px-2 py-0.5 rounded hover:text-white hover:bg-zinc-800 transition-colors">Clear</button>
+          {theoryError && <span className="max-w-56 truncate text-red-400" title={theoryError}>{theoryError}</span>}
+        </div>
+      )}
+
+      {open && (
+        <div className="flex-1 min-h-0 flex gap-3 px-3 pb-2">
+          {plot}
+          <ul className="w-44 shrink-0 overflow-y-auto flex flex-col gap-0.5">
+            {names.map(name => {
+              const s = byName.get(name);
+              const latest = s?.values[s.values.length - 1];
+              const muted = mode === 'time' && hidden.has(name);
+              return (
+                <li key={name}>
+                  <button
+                    onClick={() => toggleSeries(name)}
+                    disabled={mode !== 'time'}
+                    title={mode === 'time' ? 'Show or hide' : undefined}
+                    className={`w-full flex items-center gap-1.5 text-left ${muted ? 'opacity-40' : ''}`}
+                  >
+                    {s?.reference
+                      ? <span className="w-2 shrink-0 border-t-2 border-dashed" style={{ borderColor: colorOf(name) }} />
+                      : <span className="w-2 h-2 rounded-full shrink-0" style={{ background: colorOf(name) }} />}
+                    <span className="truncate text-zinc-300">{name}</span>
+                    <span className="ml-auto shrink-0 text-zinc-200">
+                      {latest === undefined ? '–' : formatTick(latest)}{s?.unit ? ` ${s.unit}` : ''}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
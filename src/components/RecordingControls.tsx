@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Library, Square, X } from 'lucide-react';
+import { CanvasRecorder, RecordingResult } from '../utils/recorder';
+
+const POLL_MS = 250;
+
+const formatDuration = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${String(Math.floor(whole / 60)).padStart(2, '0')}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+interface RecordingControlsProps {
+  recorder: CanvasRecorder | null;
+  result: RecordingResult | null;
+  onStop: () => void;
+  onDownload: () => void;
+  /** Absent when the host keeps no recordings; the button is hidden. */
+  onAttach?: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * "REC" indicator while recording, then the finished video's actions.
+ */
+export const RecordingControls: React.FC<RecordingControlsProps> = ({ recorder, result, onStop, onDownload, onAttach, onDismiss }) => {
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (!recorder) return;
+    const id = setInterval(() => setElapsed(recorder.duration), POLL_MS);
+    return () => clearInterval(id);
+  }, [recorder]);
+
+  const pill = "absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-zinc-900/90 backdrop-blur-md border border-zinc-800 px-3 py-1.5 rounded-full shadow-lg flex items-center gap-3 text-[11px] font-mono text-zinc-300";
+
+  if (recorder) {
+    return (
+      <div className={pill}>
+        <span className="flex items-center gap-1.5 text-red-400">
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" /> REC
+        </span>
+        <span className="text-zinc-200">{formatDuration(elapsed)}</span>
+        <span className="text-zinc-500">{recorder.offline ? `offline · ${recorder.fps} fps` : `${recorder.fps} fps`}</span>
+        <button
+          onClick={onStop}
+          title="Stop recording"
+          className="flex items-center gap-1 px-2 py-0.5 rounded bg-red-500/20 hover:bg-red-500/30 border border-red-500/40 text-red-300 transition-colors"
+        >
+          <Square size={10} /> Stop
+        </button>
+      </div>
+    );
+  }
+
+  if (!result) return null;
+
+  return (
+    <div className={pill}>
+      <span className="text-zinc-200">Recording ready</span>
+      <span className="text-zinc-500">{formatDuration(result.duration)} · {formatSize(result.blob.size)}</span>
+      <button onClick={onDownload} title="Download WebM" className="flex items-center gap-1 text-zinc-400 hover:text-white transition-colors">
+        <Download size={12} /> Download
+      </button>
+      {onAttach && (
+        <button onClick={onAttach} title="Attach to this simulation in the library" className="flex items-center gap-1 text-[#a78bfa] hover:text-white transition-colors">
+          <Library size={12} /> Attach
+        </button>
+      )}
+      <button onClick={onDismiss} title="Discard" className="text-zinc-500 hover:text-white transition-colors">
+        <X size={12} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SANDBOX_CHANNEL, SANDBOX_URL, HostToSandboxMessage, isBridgeMessage, splitProps } from '../utils/sandboxBridge';
+import type { DynamicSceneProps } from './DynamicScene';
+
+type SandboxFrameProps = Omit<DynamicSceneProps, 'sandboxed'>;
+
+/**
+ * Host side of the sandbox. Renders the simulation inside an opaque-origin iframe
+ * and mirrors DynamicScene's props into it. Callback arguments come from untrusted
+ * code, so handlers must treat them as plain data.
+ */
+export const SandboxFrame: React.FC<SandboxFrameProps> = (props) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [ready, setReady] = useState(false);
+
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  // Inbound: handshake + callback proxies
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== frameRef.current?.contentWindow) return;
+      if (!isBridgeMessage(event.data)) return;
+
+      const msg = event.data;
+      if (msg.type === 'ready') {
+        setReady(true);
+      } else if (msg.type === 'callback') {
+        const handler = (propsRef.current as Record<string, unknown>)[msg.name];
+        if (typeof handler === 'function') handler(...(Array.isArray(msg.args) ? msg.args : []));
+      }
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
+  // Outbound: push props whenever they change
+  useEffect(() => {
+    if (!ready) return;
+    const { data, callbacks } = splitProps(props as Record<string, unknown>);
+    const message: HostToSandboxMessage = { channel: SANDBOX_CHANNEL, type: 'render', props: data, callbacks };
+    frameRef.current?.contentWindow?.postMessage(message, '*');
+  }, [ready, props]);
+
+  return (
+    <iframe
+      ref={frameRef}
+      src={SANDBOX_URL}
+      sandbox="allow-scripts allow-downloads"
+      title="Simulation Sandbox"
+      className="w-full h-full border-0 block bg-black"
+    />
+  );
+};
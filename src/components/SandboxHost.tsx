@@ -0,0 +1,51 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Leva } from 'leva';
+import { DynamicScene, DynamicSceneProps } from './DynamicScene';
+import { SANDBOX_CHANNEL, SandboxToHostMessage, isBridgeMessage } from '../utils/sandboxBridge';
+import { LEVA_THEME } from './levaTheme';
+
+const postToHost = (message: SandboxToHostMessage) => {
+  window.parent.postMessage(message, '*');
+};
+
+/**
+ * Iframe side of the sandbox. Waits for props from the host, rebuilds callback
+ * proxies and renders a regular (inline) DynamicScene with its own Leva panel.
+ */
+export const SandboxHost: React.FC = () => {
+  const [sceneProps, setSceneProps] = useState<DynamicSceneProps | null>(null);
+
+  // Proxies are cached by name so their identity stays stable across renders
+  const proxies = useRef<Record<string, (...args: unknown[]) => void>>({});
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent) return;
+      if (!isBridgeMessage(event.data) || event.data.type !== 'render') return;
+
+      const { props, callbacks } = event.data;
+      const bound: Record<string, unknown> = {};
+      callbacks.forEach((name) => {
+        if (!proxies.current[name]) {
+          proxies.current[name] = (...args) => postToHost({ channel: SANDBOX_CHANNEL, type: 'callback', name, args });
+        }
+        bound[name] = proxies.current[name];
+      });
+
+      setSceneProps({ ...props, ...bound } as unknown as DynamicSceneProps);
+    };
+
+    window.addEventListener('message', onMessage);
+    postToHost({ channel: SANDBOX_CHANNEL, type: 'ready' });
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
+  return (
+    <div className="w-screen h-screen relative bg-black">
+      <div className="absolute top-3 right-3 z-20 w-72">
+        <Leva fill titleBar={{ title: 'Controls (Sandboxed)', filter: false }} theme={LEVA_THEME} />
+      </div>
+      {sceneProps && <DynamicScene {...sceneProps} sandboxed={false} />}
+    </div>
+  );
+};
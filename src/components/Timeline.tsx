@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, GitBranch, Pause, Play, SkipBack } from 'lucide-react';
+import { TimeTravel, TimeTravelStatus } from '../utils/snapshots';
+
+const POLL_MS = 100;
+
+const sameStatus = (a: TimeTravelStatus, b: TimeTravelStatus) =>
+  a.enabled === b.enabled && a.mode === b.mode && a.cursor === b.cursor && a.size === b.size && a.endTime === b.endTime;
+
+const TimelineButton = ({ onClick, title, disabled, children }: {
+  onClick: () => void; title: string; disabled?: boolean; children: React.ReactNode;
+}) => (
+  <button
+    onClick={onClick}
+    title={title}
+    disabled={disabled}
+    className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Scrubber for the snapshot history. Polls the controller instead of being
+ * driven by the frame loop, so only this strip re-renders while the sim runs.
+ */
+export const Timeline: React.FC<{ timeTravel: TimeTravel }> = ({ timeTravel }) => {
+  const [status, setStatus] = useState(timeTravel.status);
+
+  useEffect(() => {
+    const id = setInterval(() => {
+      const next = timeTravel.status();
+      setStatus(prev => (sameStatus(prev, next) ? prev : next));
+    }, POLL_MS);
+    return () => clearInterval(id);
+  }, [timeTravel]);
+
+  if (!status.enabled) return null;
+
+  const act = (action: () => void) => () => { action(); setStatus(timeTravel.status()); };
+  const isLive = status.mode === 'live';
+  const isReplaying = status.mode === 'replay';
+  const atEnd = status.cursor >= status.size - 1;
+  const shownTime = isLive ? status.endTime : status.time;
+
+  return (
+    <div className="absolute bottom-0 inset-x-0 z-10 h-8 px-3 flex items-center gap-1.5 bg-zinc-950/85 border-t border-zinc-800 backdrop-blur-md text-[11px] font-mono text-zinc-400">
+      <TimelineButton onClick={act(() => timeTravel.seek(0))} title="Rewind to start" disabled={status.size === 0}>
+        <SkipBack size={13} />
+      </TimelineButton>
+      <TimelineButton onClick={act(() => timeTravel.seek(status.cursor - 1))} title="Step back" disabled={status.cursor <= 0}>
+        <ChevronLeft size={13} />
+      </TimelineButton>
+      <TimelineButton
+        onClick={act(() => (isReplaying ? timeTravel.pause() : timeTravel.play()))}
+        title={isReplaying ? 'Pause replay' : 'Replay'}
+        disabled={status.size < 2}
+      >
+        {isReplaying ? <Pause size={13} /> : <Play size={13} />}
+      </TimelineButton>
+      <TimelineButton onClick={act(() => timeTravel.seek(status.cursor + 1))} title="Step forward" disabled={isLive || atEnd}>
+        <ChevronRight size={13} />
+      </TimelineButton>
+
+      <input
+        type="range"
+        min={0}
+        max={Math.max(0, status.size - 1)}
+        value={Math.max(0, status.cursor)}
+        onChange={e => { timeTravel.seek(Number(e.target.value)); setStatus(timeTravel.status()); }}
+        className="flex-1 mx-2 accent-[#6B26D9] cursor-pointer"
+      />
+
+      <span className="w-32 text-right text-zinc-300">
+        {shownTime.toFixed(2)} / {status.endTime.toFixed(2)} s
+      </span>
+
+      {isLive ? (
+        <span className="ml-2 flex items-center gap-1.5 text-red-400">
+          <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" /> LIVE
+        </span>
+      ) : (
+        <button
+          onClick={act(() => timeTravel.branch())}
+          title={atEnd ? 'Resume the simulation' : 'Discard the future and continue from here'}
+          className="ml-2 flex items-center gap-1 px-2 py-0.5 rounded bg-[#6B26D9]/20 hover:bg-[#6B26D9]/30 border border-[#6B26D9]/40 text-[#a78bfa] transition-colors"
+        >
+          <GitBranch size={12} /> {atEnd ? 'Resume' : 'Branch'}
+        </button>
+      )}
+    </div>
+  );
+};
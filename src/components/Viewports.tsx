@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { RotateCcw } from 'lucide-react';
+import { OrthoKind, OrthoView, VIEW_LABELS, Viewport } from '../utils/viewports';
+
+interface ViewportProps {
+  viewports: Viewport[];
+  orthoViews: Record<OrthoKind, OrthoView>;
+}
+
+// --- Renderer (inside the Canvas) ---
+
+/**
+ * Draws every viewport of a split layout. Mounted only for split layouts: as a
+ * priority-1 frame subscriber it takes rendering over from R3F.
+ */
+export const ViewportRenderer: React.FC<ViewportProps & { getTarget: () => THREE.Vector3 }> = ({ viewports, orthoViews, getTarget }) => {
+  const setEvents = useThree(state => state.setEvents);
+  const getState = useThree(state => state.get);
+
+  // Pointer events reach the canvas only over the perspective viewport (the
+  // overlays take the rest), so map them into that viewport's coordinates
+  useEffect(() => {
+    const main = viewports.find(v => v.kind === 'perspective');
+    const previous = getState().events.compute;
+    if (main) {
+      setEvents({
+        compute: (event, state) => {
+          const x = (event.offsetX / state.size.width - main.x) / main.width;
+          const y = (event.offsetY / state.size.height - main.y) / main.height;
+          state.pointer.set(x * 2 - 1, -y * 2 + 1);
+          state.raycaster.setFromCamera(state.pointer, state.camera);
+        },
+      });
+    }
+    return () => {
+      setEvents({ compute: previous });
+      // Give the orbit camera back the full canvas
+      const { camera, size } = getState();
+      if (camera instanceof THREE.PerspectiveCamera) {
+        camera.aspect = size.width / size.height;
+        camera.updateProjectionMatrix();
+      }
+    };
+  }, [viewports, setEvents, getState]);
+
+  useFrame(({ gl, scene, camera, size }) => {
+    const target = getTarget();
+    gl.setScissorTest(true);
+    viewports.forEach(viewport => {
+      const width = viewport.width * size.width;
+      const height = viewport.height * size.height;
+      const left = viewport.x * size.width;
+      const bottom = (1 - viewport.y - viewport.height) * size.height;
+      gl.setViewport(left, bottom, width, height);
+      gl.setScissor(left, bottom, width, height);
+
+      let view: THREE.Camera = camera;
+      if (viewport.kind === 'perspective') {
+        if (camera instanceof THREE.PerspectiveCamera && camera.aspect !== width / height) {
+          camera.aspect = width / height;
+          camera.updateProjectionMatrix();
+        }
+      } else {
+        const ortho = orthoViews[viewport.kind];
+        ortho.update(target, width / height);
+        view = ortho.camera;
+      }
+      gl.render(scene, view);
+    });
+    gl.setScissorTest(false);
+    gl.setViewport(0, 0, size.width, size.height);
+  }, 1);
+
+  return null;
+};
+
+// --- DOM labels (inside the Canvas) ---
+
+export type HtmlPlacement = (object: THREE.Object3D, camera: THREE.Camera, size: { width: number; height: number }) => number[];
+
+/**
+ * drei's `<Html>` placed by `calculatePosition` (see viewportHtmlPosition)
+ * unless the caller brings its own. Sims get this in place of `Html`.
+ */
+export const withHtmlPlacement = (Component: typeof Html, calculatePosition: HtmlPlacement) =>
+  React.forwardRef<HTMLDivElement, any>((props, ref) => <Component ref={ref} calculatePosition={calculatePosition} {...props} />);
+
+// --- Overlays (DOM, over the Canvas) ---
+
+const ViewportFrame = ({ viewport, ortho }: { viewport: Viewport; ortho?: OrthoView }) => {
+  const [, redraw] = useState(0);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const style: React.CSSProperties = {
+    left: `${viewport.x * 100}%`,
+    top: `${viewport.y * 100}%`,
+    width: `${viewport.width * 100}%`,
+    height: `${viewport.height * 100}%`,
+  };
+
+  const interaction = ortho && {
+    onWheel: (e: React.WheelEvent) => {
+      ortho.zoomBy(Math.exp(e.deltaY * 0.001));
+      redraw(n => n + 1);
+    },
+    onPointerDown: (e: React.PointerEvent) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragRef.current = { x: e.clientX, y: e.clientY };
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (!dragRef.current) return;
+      ortho.panBy(e.clientX - dragRef.current.x, e.clientY - dragRef.current.y, e.currentTarget.clientHeight);
+      dragRef.current = { x: e.clientX, y: e.clientY };
+    },
+    onPointerUp: () => { dragRef.current = null; },
+    onDoubleClick: () => {
+      ortho.reset();
+      redraw(n => n + 1);
+    },
+  };
+
+  return (
+    <div
+      style={style}
+      className={`absolute border border-zinc-800/80 ${ortho ? 'cursor-grab active:cursor-grabbing' : 'pointer-events-none'}`}
+      {...interaction}
+    >
+      <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-zinc-900/80 backdrop-blur-md border border-zinc-800 px-2.5 py-0.5 rounded-full text-[10px] font-mono text-zinc-400 pointer-events-auto">
+        <span className="text-zinc-200">{VIEW_LABELS[viewport.kind]}</span>
+        {ortho && (
+          <>
+            <span>{ortho.span.toFixed(1)} m</span>
+            <button
+              onClick={() => { ortho.reset(); redraw(n => n + 1); }}
+              title="Reset pan and zoom"
+              className="text-zinc-500 hover:text-white transition-colors"
+            >
+              <RotateCcw size={10} />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Borders, labels and pan/zoom handling for the viewports of a split layout.
+ * Orthographic regions capture the pointer; the perspective one lets it through
+ * to the orbit controls.
+ */
+export const ViewportOverlays: React.FC<ViewportProps> = ({ viewports, orthoViews }) => (
+  <>
+    {viewports.map(viewport => (
+      <ViewportFrame
+        key={viewport.kind}
+        viewport={viewport}
+        ortho={viewport.kind === 'perspective' ? undefined : orthoViews[viewport.kind]}
+      />
+    ))}
+  </>
+);
@@ -0,0 +1,19 @@
+// Shared Leva theme for the sidebar panel and the sandboxed panel
+export const LEVA_THEME = {
+  colors: {
+    elevation1: '#18181b', // Zinc 900
+    elevation2: '#27272a', // Zinc 800
+    elevation3: '#3f3f46', // Zinc 700
+    accent1: '#6B26D9',    // Purple
+    accent2: '#7C3AED',    // Purple 600
+    accent3: '#9333EA',    // Purple 500
+    highlight1: '#a1a1aa',
+    highlight2: '#d4d4d8',
+    highlight3: '#f4f4f5',
+    vivid1: '#e4e4e7',
+  },
+  sizes: {
+    rootWidth: '100%',
+    controlWidth: '140px'
+  }
+};
@@ -62,6 +62,9 @@ const { count, fallSpeed, windX, windZ, turbulence } = useControls({
   windZ: { value: 0, min: -3, max: 3 },
   turbulence: { value: 0.3, min: 0, max: 1 }
 });
+// Fewer flakes when the host lowers the rendering quality
+const { detail } = useQuality();
+const shown = Math.max(1, Math.round(count * detail));
 
 const mesh = useRef();
 const dummy = useMemo(() => new THREE.Object3D(), []);
@@ -87,7 +90,8 @@ useFrame(({ clock }, delta) => {
 
   let activeCount = 0;
 
-  for (let i = 0; i < count; i++) {
+  mesh.current.count = shown;
+  for (let i = 0; i < shown; i++) {
     const p = particles[i];
     
     if (p.landed) {
@@ -184,6 +188,8 @@ const { isVacuum, gravity, dragCoeff } = useControls({
 
 const ball = useRef();
 const feather = useRef();
+useCameraTarget('Ball', ball);
+useCameraTarget('Feather', feather);
 const [time, setTime] = useState(0);
 const startHeight = 12;
 
@@ -235,32 +241,48 @@ return (
         title: "Cannonball Trajectory",
         explanation: "Simulates parabolic motion with gravity and initial velocity.",
         componentCode: `
+const [shot, setShot] = useState(0);
 const { angle, velocity, gravity, height } = useControls({ 
   angle: { value: 45, min: 0, max: 90 }, 
   velocity: { value: 18, min: 5, max: 30 },
   gravity: { value: 9.8, min: 1, max: 20 },
-  height: { value: 0, min: 0, max: 10, label: "Platform Height" }
+  height: { value: 0, min: 0, max: 10, label: "Platform Height" },
+  Launch: button(() => setShot(n => n + 1))
 });
 
 const ball = useRef();
+useCameraTarget('Cannonball', ball);
 const trailPoints = useRef([]);
 const line = useRef();
 
-useFrame((state) => {
-  const t = (state.clock.elapsedTime % 4) * 1.5;
-  const rad = angle * Math.PI / 180;
-  const x = velocity * Math.cos(rad) * t;
-  const y = height + (velocity * Math.sin(rad) * t) - (0.5 * gravity * t * t);
-  
-  if (ball.current) {
-     if (y >= 0.25) {
-       ball.current.position.set(x - 10, y, 0);
-       if (t < 0.1) trailPoints.current = [];
-       trailPoints.current.push(x - 10, y, 0);
-     } else {
-       ball.current.position.set(x - 10, 0.25, 0);
-     }
+// Stepped numerically; the exact parabola is drawn as a ghost for comparison
+const rad = angle * Math.PI / 180;
+const launch = () => ({ x: 0, y: height, vx: velocity * Math.cos(rad), vy: velocity * Math.sin(rad), landed: false });
+const body = useRef(launch());
+useEffect(() => { body.current = launch(); trailPoints.current = []; }, [angle, velocity, gravity, height, shot]);
+
+useSnapshot('cannonball', () => ({ ...body.current, points: trailPoints.current.length }), saved => {
+  const { points, ...state } = saved;
+  body.current = state;
+  trailPoints.current.length = Math.min(points, trailPoints.current.length);
+});
+
+const flightTime = (velocity * Math.sin(rad) + Math.sqrt((velocity * Math.sin(rad)) ** 2 + 2 * gravity * Math.max(0, height - 0.25))) / gravity;
+useAnalytic("Trajectory", t => {
+  const tt = Math.min(t, flightTime);
+  return [velocity * Math.cos(rad) * tt - 10, height + velocity * Math.sin(rad) * tt - 0.5 * gravity * tt * tt, 0];
+}, { actual: () => ball.current?.position, unit: "m", color: "#fbbf24", duration: flightTime }, [angle, velocity, gravity, height, shot]);
+
+useFrame((_, dt) => {
+  const b = body.current;
+  if (!b.landed) {
+    b.vy -= gravity * dt;
+    b.x += b.vx * dt;
+    b.y += b.vy * dt;
+    if (b.y < 0.25) { b.y = 0.25; b.landed = true; }
+    trailPoints.current.push(b.x - 10, b.y, 0);
   }
+  if (ball.current) ball.current.position.set(b.x - 10, b.y, 0);
   
   if (line.current && trailPoints.current.length > 0) {
       line.current.geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(trailPoints.current), 3));
@@ -363,6 +385,24 @@ const springVis = useRef();
 
 useEffect(() => { pos.current = startPos; vel.current = 0; }, [k, damping, mass, startPos]);
 
+// Displacement from the spring's rest length (y = 8) and the mechanical energy
+useProbe("Displacement", () => pos.current - 8, { unit: "m" });
+useProbe("Velocity", () => vel.current, { unit: "m/s" });
+useProbe("Energy", () => 0.5 * mass * vel.current ** 2 + 0.5 * k * (pos.current - 8) ** 2 + mass * 9.8 * pos.current, { unit: "J" });
+
+// Conserved only without damping: with c > 0 the drift is the energy dissipated
+useInvariant("Energy", () => 0.5 * mass * vel.current ** 2 + 0.5 * k * (pos.current - 8) ** 2 + mass * 9.8 * pos.current, { tolerance: 0.02, unit: "J" }, [k, damping, mass, startPos]);
+
+// Closed form of the damped oscillation about the equilibrium 8 - mg/k (underdamped for every
+// control setting); its gap to the Displacement probe is the integrator's error
+useAnalytic("Displacement", t => {
+  const sag = mass * 9.8 / k;
+  const gamma = damping / (2 * mass);
+  const omega = Math.sqrt(k / mass - gamma * gamma);
+  const amplitude = startPos - 8 + sag;
+  return -sag + amplitude * Math.exp(-gamma * t) * (Math.cos(omega * t) + (gamma / omega) * Math.sin(omega * t));
+}, { unit: "m" }, [k, damping, mass, startPos]);
+
 useFrame((_, dt) => {
   const gravity = 9.8;
   const fSpring = -k * (pos.current - 8);
@@ -542,13 +582,16 @@ const { stars, arms, spiral, speed, tilt } = useControls({
   speed: { value: 0.5, min: 0, max: 2 },
   tilt: { value: 0.2, min: 0, max: 1 }
 });
+const { detail } = useQuality();
+const shown = Math.max(1, Math.round(stars * detail));
 const mesh = useRef();
 const dummy = useMemo(() => new THREE.Object3D(), []);
 useFrame(({ clock }) => {
    const t = clock.elapsedTime * speed;
-   for(let i=0; i<stars; i++) {
+   mesh.current.count = shown;
+   for(let i=0; i<shown; i++) {
       const armIndex = i % arms;
-      const radius = (i / stars) * 10 + 0.5;
+      const radius = (i / shown) * 10 + 0.5;
       const spinAngle = radius * spiral; 
       const armAngle = (armIndex / arms) * Math.PI * 2;
       const angle = armAngle + spinAngle + t * (5/radius);
@@ -660,26 +703,35 @@ const particles = useMemo(() => Array.from({length: 300}).map(() => ({
    pos: new THREE.Vector3((Math.random()-0.5)*4, (Math.random()-0.5)*4 + 5, (Math.random()-0.5)*4),
    dir: new THREE.Vector3(Math.random()-0.5, Math.random()-0.5, Math.random()-0.5).normalize()
 })), []);
+// Pressure = momentum delivered to the walls per unit time and area (unit mass), smoothed
+const pressure = useRef(0);
+
+useProbe("Temperature", temperature);
+useProbe("Pressure", () => pressure.current);
+useProbe("PV / N", () => pressure.current * boxSize ** 3 / count);
 
 useFrame((_, dt) => {
   const limit = boxSize / 2;
   const speed = temperature * 5;
   const simDt = Math.min(dt, 0.05);
+  let impulse = 0;
+  const bounce = (component) => { impulse += 2 * speed * Math.abs(component); return -component; };
   for (let i=0; i<count; i++) {
      const p = particles[i];
      p.pos.add(p.dir.clone().multiplyScalar(speed * simDt));
-     if (p.pos.x > limit) { p.pos.x = limit; p.dir.x *= -1; }
-     if (p.pos.x < -limit) { p.pos.x = -limit; p.dir.x *= -1; }
-     if (p.pos.y > limit + 5) { p.pos.y = limit + 5; p.dir.y *= -1; }
-     if (p.pos.y < -limit + 5) { p.pos.y = -limit + 5; p.dir.y *= -1; }
-     if (p.pos.z > limit) { p.pos.z = limit; p.dir.z *= -1; }
-     if (p.pos.z < -limit) { p.pos.z = -limit; p.dir.z *= -1; }
+     if (p.pos.x > limit) { p.pos.x = limit; p.dir.x = bounce(p.dir.x); }
+     if (p.pos.x < -limit) { p.pos.x = -limit; p.dir.x = bounce(p.dir.x); }
+     if (p.pos.y > limit + 5) { p.pos.y = limit + 5; p.dir.y = bounce(p.dir.y); }
+     if (p.pos.y < -limit + 5) { p.pos.y = -limit + 5; p.dir.y = bounce(p.dir.y); }
+     if (p.pos.z > limit) { p.pos.z = limit; p.dir.z = bounce(p.dir.z); }
+     if (p.pos.z < -limit) { p.pos.z = -limit; p.dir.z = bounce(p.dir.z); }
      dummy.position.copy(p.pos);
      dummy.scale.setScalar(0.3);
      dummy.updateMatrix();
      mesh.current.setMatrixAt(i, dummy.matrix);
   }
   mesh.current.instanceMatrix.needsUpdate = true;
+  if (simDt > 0) pressure.current += (impulse / (simDt * 6 * boxSize * boxSize) - pressure.current) * 0.05;
 });
 return (
   <group>
@@ -1819,14 +1871,23 @@ return (
 const { halfLife } = useControls({ halfLife: { value: 3, min: 1, max: 10 } });
 const atoms = useMemo(() => Array.from({length: 400}).map(() => ({ 
    pos: [Math.random()*10 - 5, 0.2, Math.random()*10 - 5], 
-   decayTime: -Math.log(Math.random()) * halfLife 
+   decayTime: -Math.log(Math.random()) * halfLife / Math.LN2
 })), [halfLife]);
 
 const mesh = useRef();
 const dummy = useMemo(() => new THREE.Object3D(), []);
 
+// Decay times count from when this sample was created; the theory is N(t) = N0 · 2^(-t / T½)
+const startTime = useRef(null);
+const remaining = useRef(atoms.length);
+useEffect(() => { startTime.current = null; }, [atoms]);
+
+useProbe("Remaining", () => remaining.current);
+useAnalytic("Remaining", t => atoms.length * Math.pow(2, -t / halfLife), {}, [atoms, halfLife]);
+
 useFrame(({ clock }) => {
-   const t = clock.elapsedTime;
+   if (startTime.current === null) startTime.current = clock.elapsedTime;
+   const t = clock.elapsedTime - startTime.current;
    let decayedCount = 0;
    
    atoms.forEach((atom, i) => {
@@ -1839,6 +1900,7 @@ useFrame(({ clock }) => {
       mesh.current.setMatrixAt(i, dummy.matrix);
       mesh.current.setColorAt(i, isDecayed ? new THREE.Color("#334155") : new THREE.Color("#ef4444"));
    });
+   remaining.current = atoms.length - decayedCount;
    mesh.current.instanceMatrix.needsUpdate = true;
    mesh.current.instanceColor.needsUpdate = true;
 });
@@ -1866,11 +1928,21 @@ const { startTemp, envTemp, k } = useControls({
 
 const mesh = useRef();
 const text = useRef();
+const temp = useRef(startTemp);
 
-useFrame(({ clock }) => {
-   const t = clock.elapsedTime;
-   // T(t) = T_env + (T_0 - T_env) * e^(-kt)
-   const currentTemp = envTemp + (startTemp - envTemp) * Math.exp(-k * t);
+useEffect(() => { temp.current = startTemp; }, [startTemp, envTemp, k]);
+useSnapshot('temperature', () => temp.current, saved => { temp.current = saved; });
+
+useProbe("Temperature", () => temp.current, { unit: "°C" });
+useProbe("Cooling rate", () => -k * (temp.current - envTemp), { unit: "°C/s" });
+
+// Exact solution T(t) = T_env + (T_0 - T_env) * e^(-kt), against the Euler steps below
+useAnalytic("Temperature", t => envTemp + (startTemp - envTemp) * Math.exp(-k * t), { unit: "°C" }, [startTemp, envTemp, k]);
+
+useFrame((_, dt) => {
+   // Explicit Euler step of dT/dt = -k (T - T_env)
+   temp.current += -k * (temp.current - envTemp) * dt;
+   const currentTemp = temp.current;
    
    if(mesh.current) {
       // Color map: Hot (Red) -> Cold (Blue)
@@ -209,6 +209,18 @@ useFrame((_, delta) => {
   state.current.a1 += state.current.a1_v * dt;
   state.current.a2 += state.current.a2_v * dt;
 
+  updateVisuals();
+});
+
+useCameraTarget('Lower bob', p2Ref);
+
+// Register with the timeline so the chaos can be rewound and replayed
+useSnapshot('pendulum', () => ({ ...state.current }), saved => {
+  state.current = { ...saved };
+  updateVisuals();
+});
+
+function updateVisuals() {
   const x1 = r1 * Math.sin(state.current.a1);
   const y1 = -r1 * Math.cos(state.current.a1);
   const x2 = x1 + r2 * Math.sin(state.current.a2);
@@ -222,7 +234,7 @@ useFrame((_, delta) => {
     lineRef.current.geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
     lineRef.current.geometry.attributes.position.needsUpdate = true;
   }
-});
+}
 
 return (
   <group position={[0, 5, 0]}>
@@ -494,6 +506,11 @@ const [planets, setPlanets] = useState([
 
 const planetRefs = useRef([]);
 
+// The outer planets orbit far beyond the default view; start high and wide
+useInitialCamera({ position: [0, 45, 70], target: [0, 0, 0] });
+useCameraTarget('Earth', () => planetRefs.current[2]);
+useCameraTarget('Jupiter', () => planetRefs.current[4]);
+
 useFrame((_, delta) => {
   const dt = Math.min(delta, 0.05) * speed;
   
@@ -780,6 +797,40 @@ useFrame((_, delta) => {
   });
 });
 
+// Let the camera ride along with any of the bodies
+useCameraTarget('Teal body', () => meshes.current[0]);
+useCameraTarget('Pink body', () => meshes.current[1]);
+useCameraTarget('Amber body', () => meshes.current[2]);
+
+// Register with the timeline: positions and velocities are the whole state
+useSnapshot('bodies', () => bodiesRef.current.map(b => ({ pos: b.pos.toArray(), vel: b.vel.toArray() })), saved => {
+  saved.forEach((s, i) => {
+    const b = bodiesRef.current[i];
+    b.pos.fromArray(s.pos);
+    b.vel.fromArray(s.vel);
+    if (meshes.current[i]) meshes.current[i].position.copy(b.pos);
+  });
+});
+
+// Conservation checks. The potential matches the softened force G m1 m2 / (r² + a²):
+// U = -(G m1 m2 / a) (π/2 - atan(r / a)), with a² = 0.1
+const energy = () => {
+  const bodies = bodiesRef.current;
+  const a = Math.sqrt(0.1);
+  let total = 0;
+  bodies.forEach((b, i) => {
+    total += 0.5 * b.mass * b.vel.lengthSq();
+    for (let j = i + 1; j < bodies.length; j++) {
+      const r = b.pos.distanceTo(bodies[j].pos);
+      total -= (G * b.mass * bodies[j].mass / a) * (Math.PI / 2 - Math.atan(r / a));
+    }
+  });
+  return total;
+};
+useInvariant("Energy", energy, { tolerance: 0.05 }, [G]);
+useInvariant("Momentum", () => bodiesRef.current.reduce((p, b) => p.addScaledVector(b.vel, b.mass), new THREE.Vector3()));
+useInvariant("Angular momentum", () => bodiesRef.current.reduce((l, b) => l.add(b.pos.clone().cross(b.vel).multiplyScalar(b.mass)), new THREE.Vector3()));
+
 return (
   <group>
     <ambientLight intensity={0.2} />
@@ -0,0 +1,49 @@
+import { CameraBookmark } from "../types";
+import { readCameraPose } from "./savedStates";
+
+const STORAGE_KEY = "physigen_camera_bookmarks";
+const MAX_BOOKMARKS = 24;
+
+// Keyed by simulationStorageKey (storage.ts)
+interface StoredBookmarks {
+  [simulationKey: string]: CameraBookmark[];
+}
+
+/**
+ * Drops malformed entries; bookmark lists may come from a sandboxed simulation.
+ */
+export const readCameraBookmarks = (value: unknown): CameraBookmark[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(entry => {
+      const pose = readCameraPose(entry?.pose);
+      const name = typeof entry?.name === "string" ? entry.name.trim().slice(0, 40) : "";
+      return pose && name ? { name, pose } : null;
+    })
+    .filter((entry): entry is CameraBookmark => entry !== null)
+    .slice(0, MAX_BOOKMARKS);
+};
+
+export const getCameraBookmarks = (key: string): CameraBookmark[] => {
+  return readCameraBookmarks(getStoredBookmarks()[key]);
+};
+
+export const saveCameraBookmarks = (key: string, bookmarks: CameraBookmark[]) => {
+  try {
+    const existing = getStoredBookmarks();
+    if (bookmarks.length > 0) existing[key] = bookmarks;
+    else delete existing[key];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(existing));
+  } catch (e) {
+    console.error("Failed to save camera bookmarks", e);
+  }
+};
+
+const getStoredBookmarks = (): StoredBookmarks => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    return {};
+  }
+};
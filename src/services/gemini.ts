@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { SimulationResponse } from "../types";
+import { CodeDiagnostic, SimulationResponse } from "../types";
+import { checkSimulation } from "../utils/compiler";
 import { PERFECT_SIMULATIONS } from "../data/perfectSimulations";
 import { INVISIBLE_SIMULATIONS } from "../data/invisibleSimulations";
 
@@ -40,6 +41,8 @@ RETURN JSON ONLY. The response must follow this schema:
    - The user's camera is at position [0, 10, 20] looking at [0,0,0].
    - **KEEP IT CENTERED**: All action must happen within x: -10 to 10, y: 0 to 10, z: -10 to 10.
    - **SCALE**: Objects should be size 0.5 to 2.0. Do not make tiny objects (0.01).
+   - If the scene needs a different view, declare it: 'useInitialCamera({ position: [0, 20, 30], target: [0, 0, 0] })'.
+   - Tag the main moving bodies so users can follow them and capture stroboscopic snapshots of them: 'useCameraTarget("Ball", ballRef)'.
 
 3. **MANDATORY HOOKS & IMPORTS (Provided Globally)**
    - useFrame, useState, useEffect, useRef, useMemo, THREE, leva, drei.
@@ -47,8 +50,29 @@ RETURN JSON ONLY. The response must follow this schema:
 
 4. **PHYSICS LOOP PATTERN**
    - Use 'useFrame((state, delta) => { ... })'.
+   - Step physics only in useFrame callbacks without a priority (or priority 0). A positive priority
+     ('useFrame(cb, 1)') takes rendering over: the callback runs once per frame after the physics has stepped,
+     also while paused, with delta = simulated time stepped in that frame (0 while paused). Only draw there.
    - Always verify refs exist: 'if (!meshRef.current) return;'.
    - Use 'delta' for time-based movement (x += v * delta).
+   - Keep mutable physics state in refs and register it for rewind with 'useSnapshot(key, capture, restore)'.
+     Snapshots are copied with structuredClone, which drops class prototypes: capture must return plain data
+     (numbers, strings, arrays, plain objects), never THREE.Vector3, Quaternion, Color or other class instances.
+     Convert vectors with toArray() and restore them in place with fromArray():
+     'useSnapshot("bodies", () => bodies.map(b => ({ pos: b.pos.toArray(), vel: b.vel.toArray() })),
+       saved => saved.forEach((s, i) => { bodies[i].pos.fromArray(s.pos); bodies[i].vel.fromArray(s.vel); }))'.
+   - Publish the quantities worth plotting (energy, momentum, temperature...) with 'useProbe(name, value, { unit })';
+     pass a getter for values kept in refs: 'useProbe("Energy", () => energyRef.current, { unit: "J" })'.
+   - Declare what the model conserves (total energy, linear or angular momentum) with
+     'useInvariant(name, read, { tolerance, unit }, deps)'; read returns a number or a vector, e.g.
+     'useInvariant("Momentum", () => bodies.reduce((p, b) => p.addScaledVector(b.vel, b.mass), new THREE.Vector3()))'.
+     Skip it for quantities that damping, friction or driving forces legitimately change.
+   - When the model has a closed-form solution, declare it with 'useAnalytic(name, t => value, { actual, unit }, deps)'
+     (t counts from the last change of deps; reset the sim's state on the same deps). A number predicts the probe of
+     the same name; a position such as '[x, y, z]' is drawn as a ghost path and compared with 'actual()'.
+     Step the simulated state numerically rather than evaluating the formula, so the comparison means something.
+   - For large particle or instance counts, scale them by the host's quality level:
+     'const { detail } = useQuality(); const shown = Math.round(count * detail);' (detail is 1, 0.5 or 0.25).
 
 5. **AESTHETICS**
    - Use bright colors for objects: '#2dd4bf' (Teal), '#fbbf24' (Amber), '#ef4444' (Red).
@@ -98,6 +122,9 @@ const RESPONSE_SCHEMA = {
 
 const GENERATION_CACHE: Record<string, SimulationResponse> = {};
 
+// Extra round-trips allowed to fix code the compiler or type checker rejects
+const MAX_REPAIR_ATTEMPTS = 2;
+
 // Validator to ensure we actually got renderable code
 const validateSimulationCode = (code: string): boolean => {
   const hasMesh = /<(mesh|points|line|instancedMesh|drei\.)/i.test(code);
@@ -106,6 +133,49 @@ const validateSimulationCode = (code: string): boolean => {
   return hasMesh && hasReturn && hasGroup;
 };
 
+const parseSimulation = (text: string): SimulationResponse => {
+  const json = JSON.parse(text) as SimulationResponse;
+
+  // Auto-fix: Ensure <group> wrapper if missing
+  if (!json.componentCode.includes("return (")) {
+     json.componentCode = `return (<group>${json.componentCode}</group>);`;
+  }
+  return json;
+};
+
+const formatDiagnostics = (diagnostics: CodeDiagnostic[]) =>
+  diagnostics
+    .map(d => `- Line ${d.line}, column ${d.column + 1}: ${d.message.split("\n")[0]}${d.rule ? ` (${d.rule})` : ""}`)
+    .join("\n");
+
+// Sends the compiler's findings back to the model and asks for a corrected version
+const repairSimulation = async (sim: SimulationResponse, diagnostics: CodeDiagnostic[]): Promise<SimulationResponse> => {
+  const prompt = `
+    EXISTING CODE:
+    ${sim.componentCode}
+
+    The code above fails static checks. The line numbers refer to the EXISTING CODE:
+    ${formatDiagnostics(diagnostics)}
+
+    TASK: Fix every problem listed. Only use names that are in scope (see the rules). Keep the physics, title and explanation.
+    RETURN JSON schema.
+    `;
+
+  const result = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: prompt,
+    config: {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      responseMimeType: "application/json",
+      responseSchema: RESPONSE_SCHEMA,
+      temperature: 0.1,
+    },
+  });
+
+  if (!result.text) throw new Error("No repair generated");
+  return parseSimulation(result.text);
+};
+
 // ============================================================================
 // 1. CORE GENERATOR
 // ============================================================================
@@ -176,11 +246,20 @@ export const generateSimulation = async (userPrompt: string): Promise<Simulation
     const text = codeResponse.text;
     if (!text) throw new Error("No response from Gemini");
 
-    const json = JSON.parse(text) as SimulationResponse;
-    
-    // Auto-fix: Ensure <group> wrapper if missing
-    if (!json.componentCode.includes("return (")) {
-       json.componentCode = `return (<group>${json.componentCode}</group>);`;
+    let json = parseSimulation(text);
+
+    // 3c. VERIFY & REPAIR (syntax, safety policy, type check; nothing is executed here)
+    // Every repair is checked again; code that still fails after the last one is not handed out
+    let diagnostics = await checkSimulation(json.componentCode);
+    for (let attempt = 1; diagnostics.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      console.warn(`Generated code failed checks (attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}):\n${formatDiagnostics(diagnostics)}`);
+      json = await repairSimulation(json, diagnostics);
+      diagnostics = await checkSimulation(json.componentCode);
+    }
+    if (diagnostics.length > 0) {
+      throw new Error(
+        `Generated code still fails ${diagnostics.length} check${diagnostics.length > 1 ? "s" : ""} after ${MAX_REPAIR_ATTEMPTS} repair attempts:\n${formatDiagnostics(diagnostics)}`
+      );
     }
 
     if (!validateSimulationCode(json.componentCode)) {
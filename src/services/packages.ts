@@ -0,0 +1,106 @@
+import { strFromU8, unzipSync } from "fflate";
+import { SimulationResponse } from "../types";
+import { isAssetFile, isCodeFile } from "../utils/linker";
+
+// A simulation package is a folder (or zip of one) holding the main component,
+// helper modules and assets. An optional physigen.json manifest names the entry:
+//   { "title": "Soft Body", "entry": "main.tsx", "explanation": "..." }
+
+const MANIFEST_FILE = "physigen.json";
+const README_FILE = /^readme\.md$/i;
+const ENTRY_CANDIDATES = ["main.tsx", "index.tsx", "simulation.tsx", "main.ts", "index.ts"];
+const IGNORED_PATH = /(^|\/)(__MACOSX|node_modules|\.[^/]+)(\/|$)/;
+
+interface PackageManifest {
+  title?: string;
+  entry?: string;
+  explanation?: string;
+}
+
+export const isPackageArchive = (file: File) => /\.zip$/i.test(file.name);
+
+// Folders and zips usually wrap everything in one top-level directory; drop it
+const stripCommonRoot = (files: Record<string, string>): Record<string, string> => {
+  const paths = Object.keys(files);
+  const roots = new Set(paths.map(p => (p.includes("/") ? p.split("/")[0] : "")));
+  if (roots.size !== 1 || roots.has("")) return files;
+
+  const root = [...roots][0];
+  return Object.fromEntries(paths.map(p => [p.slice(root.length + 1), files[p]]));
+};
+
+const findEntry = (files: Record<string, string>, manifest: PackageManifest): string => {
+  if (manifest.entry) {
+    if (!(manifest.entry in files)) throw new Error(`Package entry "${manifest.entry}" not found`);
+    return manifest.entry;
+  }
+  const entry = ENTRY_CANDIDATES.find(candidate => candidate in files);
+  if (entry) return entry;
+
+  const components = Object.keys(files).filter(p => /\.tsx$/i.test(p));
+  if (components.length === 1) return components[0];
+  throw new Error(`Cannot tell which file is the main component; add a ${MANIFEST_FILE} with an "entry"`);
+};
+
+/**
+ * Builds a SimulationResponse from the files of a package.
+ * The entry becomes componentCode, the other code and asset files become `files`.
+ */
+export const createSimulationPackage = (rawFiles: Record<string, string>, fallbackTitle: string): SimulationResponse => {
+  const files = stripCommonRoot(
+    Object.fromEntries(Object.entries(rawFiles).filter(([path]) => !IGNORED_PATH.test(path)))
+  );
+
+  let manifest: PackageManifest = {};
+  if (files[MANIFEST_FILE]) {
+    try {
+      manifest = JSON.parse(files[MANIFEST_FILE]);
+    } catch (e) {
+      throw new Error(`Invalid ${MANIFEST_FILE}: ${(e as Error).message}`);
+    }
+  }
+
+  const entry = findEntry(files, manifest);
+  const title = manifest.title || fallbackTitle;
+  const readme = Object.keys(files).find(p => README_FILE.test(p));
+
+  const helpers: Record<string, string> = {};
+  Object.keys(files)
+    .filter(p => p !== entry && p !== MANIFEST_FILE && (isCodeFile(p) || isAssetFile(p)))
+    .forEach(p => { helpers[p] = files[p]; });
+
+  return {
+    title,
+    componentCode: files[entry],
+    explanation:
+      manifest.explanation ||
+      (readme ? files[readme] : `# ${title}\n\n*Imported from local package*\n\nThis simulation was loaded from **${entry}** and ${Object.keys(helpers).length} helper file(s).`),
+    sources: [],
+    files: helpers,
+    entry,
+  };
+};
+
+/**
+ * Reads a package from a directory picker selection (`<input webkitdirectory>`).
+ */
+export const loadPackageFromFolder = async (fileList: FileList): Promise<SimulationResponse> => {
+  const entries = await Promise.all(
+    Array.from(fileList).map(async file => [file.webkitRelativePath || file.name, await file.text()] as const)
+  );
+  const rawFiles = Object.fromEntries(entries);
+  const folderName = (entries[0]?.[0] || "Package").split("/")[0];
+  return createSimulationPackage(rawFiles, folderName);
+};
+
+/**
+ * Reads a package from a .zip archive.
+ */
+export const loadPackageFromZip = async (file: File): Promise<SimulationResponse> => {
+  const archive = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  const rawFiles: Record<string, string> = {};
+  Object.entries(archive).forEach(([path, bytes]) => {
+    if (!path.endsWith("/")) rawFiles[path] = strFromU8(bytes);
+  });
+  return createSimulationPackage(rawFiles, file.name.replace(/\.zip$/i, ""));
+};
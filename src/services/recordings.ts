@@ -0,0 +1,77 @@
+import { SimulationRecording } from "../types";
+
+// Videos attached to library simulations, kept in IndexedDB under the
+// simulation's storage key (simulationStorageKey in storage.ts) so they survive reloads. The app turns the stored blobs into object
+// URLs while a simulation is open and revokes them when it is closed.
+
+const DB_NAME = "physigen-recordings";
+const DB_VERSION = 2;
+const STORE = "recordings";
+
+export interface StoredRecording extends Omit<SimulationRecording, "url"> {
+  simulation: string;
+  video: Blob;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves null where IndexedDB is missing or denied (private modes)
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Version 1 indexed recordings by title alone
+        if (db.objectStoreNames.contains(STORE)) db.deleteObjectStore(STORE);
+        db.createObjectStore(STORE, { keyPath: "id", autoIncrement: true }).createIndex("bySimulation", "simulation");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    } catch (e) {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+};
+
+/** Recordings of a simulation, newest first; empty where IndexedDB is unavailable. */
+export const getRecordings = async (key: string): Promise<StoredRecording[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+  try {
+    const index = db.transaction(STORE).objectStore(STORE).index("bySimulation");
+    const records = await requestToPromise<StoredRecording[]>(index.getAll(key));
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    console.error("Failed to read recordings", e);
+    return [];
+  }
+};
+
+/** Stores a recording; rejects when it cannot be kept (no IndexedDB, quota). */
+export const addRecording = async (key: string, recording: Omit<StoredRecording, "id" | "simulation">): Promise<StoredRecording> => {
+  const db = await openDatabase();
+  if (!db) throw new Error("this browser does not allow storing videos");
+  const record = { ...recording, simulation: key };
+  const id = await requestToPromise(db.transaction(STORE, "readwrite").objectStore(STORE).add(record));
+  return { ...record, id: id as number };
+};
+
+export const removeRecording = async (id: number) => {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    await requestToPromise(db.transaction(STORE, "readwrite").objectStore(STORE).delete(id));
+  } catch (e) {
+    console.error("Failed to remove recording", e);
+  }
+};
@@ -0,0 +1,100 @@
+import { CameraPose, Measurement, SavedSimState, SimulationResponse } from "../types";
+import { downloadBlob, toFilename } from "../utils/download";
+
+// A saved state file is the whole simulation plus the moment to resume from,
+// so it opens on any machine without the original library entry:
+//   { "format": "physigen-saved-state", "version": 1, "simulation": { ..., "savedState": {...} } }
+
+const SAVED_STATE_FORMAT = "physigen-saved-state";
+const SAVED_STATE_VERSION = 1;
+export const SAVED_STATE_EXTENSION = ".physigen.json";
+
+export const isSavedStateFile = (file: File) => /\.json$/i.test(file.name);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isVector = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(n => typeof n === "number" && Number.isFinite(n));
+
+export const readCameraPose = (value: unknown): CameraPose | null => {
+  if (!isRecord(value) || !isVector(value.position) || !isVector(value.target)) return null;
+  return { position: value.position, target: value.target, zoom: typeof value.zoom === "number" ? value.zoom : 1 };
+};
+
+const readMeasurement = (value: unknown): Measurement | null => {
+  if (!isRecord(value)) return null;
+  const points = Array.isArray(value.points) && value.points.every(isVector) ? value.points : null;
+  if (value.kind === "distance" && points?.length === 2) return { kind: "distance", points: [points[0], points[1]] };
+  if (value.kind === "angle" && points?.length === 3) return { kind: "angle", points: [points[0], points[1], points[2]] };
+  if (value.kind === "interval" && typeof value.start === "number" && typeof value.end === "number") {
+    return { kind: "interval", start: value.start, end: value.end };
+  }
+  return null;
+};
+
+/** Drops anything that is not a well-formed measurement. */
+export const readMeasurements = (value: unknown): Measurement[] =>
+  Array.isArray(value) ? value.map(readMeasurement).filter((m): m is Measurement => m !== null) : [];
+
+/**
+ * Checks and normalises a saved state. It may come from a file or from a
+ * sandboxed simulation, so nothing about its shape is assumed.
+ */
+export const readSavedState = (value: unknown): SavedSimState => {
+  if (!isRecord(value)) throw new Error("Saved state is not an object");
+  if (typeof value.time !== "number" || !Number.isFinite(value.time) || value.time < 0) {
+    throw new Error("Saved state has no valid simulation time");
+  }
+  return {
+    time: value.time,
+    states: isRecord(value.states) ? value.states : {},
+    controls: isRecord(value.controls) ? value.controls : {},
+    camera: readCameraPose(value.camera),
+    measurements: readMeasurements(value.measurements),
+    savedAt: typeof value.savedAt === "number" ? value.savedAt : Date.now(),
+  };
+};
+
+/** Title of a saved moment, e.g. "Three-Body Problem @ 12.40 s". */
+export const savedStateTitle = (title: string, state: SavedSimState) =>
+  `${title.replace(/ @ [\d.]+ s$/, "")} @ ${state.time.toFixed(2)} s`;
+
+export const serializeSavedSimulation = (sim: SimulationResponse): string =>
+  JSON.stringify({ format: SAVED_STATE_FORMAT, version: SAVED_STATE_VERSION, simulation: sim }, null, 2);
+
+export const parseSavedSimulation = (text: string): SimulationResponse => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`);
+  }
+  if (!isRecord(file) || file.format !== SAVED_STATE_FORMAT) throw new Error("Not a PhysiGen saved state file");
+  if (typeof file.version !== "number" || file.version > SAVED_STATE_VERSION) {
+    throw new Error(`Unsupported saved state version ${String(file.version)}`);
+  }
+
+  const sim = file.simulation;
+  if (!isRecord(sim) || typeof sim.componentCode !== "string") throw new Error("Saved state has no simulation code");
+  const title = typeof sim.title === "string" ? sim.title : "Saved Simulation";
+  return {
+    title,
+    componentCode: sim.componentCode,
+    explanation: typeof sim.explanation === "string" ? sim.explanation : `# ${title}`,
+    sources: [],
+    files: isRecord(sim.files)
+      ? Object.fromEntries(Object.entries(sim.files).filter((entry): entry is [string, string] => typeof entry[1] === "string"))
+      : undefined,
+    entry: typeof sim.entry === "string" ? sim.entry : undefined,
+    savedState: readSavedState(sim.savedState),
+  };
+};
+
+/**
+ * Offers the saved simulation as a file download.
+ */
+export const downloadSavedSimulation = (sim: SimulationResponse) => {
+  const blob = new Blob([serializeSavedSimulation(sim)], { type: "application/json" });
+  downloadBlob(blob, `${toFilename(sim.title)}${SAVED_STATE_EXTENSION}`);
+};
@@ -6,14 +6,23 @@ interface FixedSimulations {
   [promptKey: string]: SimulationResponse;
 }
 
-const normalizePrompt = (prompt: string): string => {
-  return prompt.toLowerCase().trim();
+export const normalizeKey = (text: string): string => {
+  return text.toLowerCase().trim();
+};
+
+/**
+ * Key for data kept per simulation (recordings, camera bookmarks): its library
+ * id when it has one, so simulations sharing a title keep their own data, else
+ * its normalized title.
+ */
+export const simulationStorageKey = (title: string, id?: string): string => {
+  return id ? `id:${id}` : normalizeKey(title);
 };
 
 export const saveFixedSimulation = (prompt: string, data: SimulationResponse) => {
   try {
     const existing = getStoredSimulations();
-    const key = normalizePrompt(prompt);
+    const key = normalizeKey(prompt);
     existing[key] = data;
     localStorage.setItem(STORAGE_KEY, JSON.stringify(existing));
   } catch (e) {
@@ -24,7 +33,7 @@ export const saveFixedSimulation = (prompt: string, data: SimulationResponse) =>
 export const removeFixedSimulation = (prompt: string) => {
   try {
     const existing = getStoredSimulations();
-    const key = normalizePrompt(prompt);
+    const key = normalizeKey(prompt);
     delete existing[key];
     localStorage.setItem(STORAGE_KEY, JSON.stringify(existing));
   } catch (e) {
@@ -35,7 +44,7 @@ export const removeFixedSimulation = (prompt: string) => {
 export const getFixedSimulation = (prompt: string): SimulationResponse | null => {
   try {
     const existing = getStoredSimulations();
-    const key = normalizePrompt(prompt);
+    const key = normalizeKey(prompt);
     return existing[key] || null;
   } catch (e) {
     return null;
@@ -3,25 +3,84 @@ export interface SimulationResponse {
   explanation: string;
   title: string;
   sources?: { title: string; uri: string }[];
+  /** Helper files of a multi-file simulation package, keyed by relative path. */
+  files?: Record<string, string>;
+  /** Package path of the main component (e.g. "src/main.tsx"); its imports resolve from there. */
+  entry?: string;
+  /** Moment to resume from instead of starting fresh. */
+  savedState?: SavedSimState;
 }
 
+/**
+ * A paused moment of a running simulation: sim time, the `useSnapshot` states,
+ * the sim's control values and the camera pose.
+ */
+export interface SavedSimState {
+  time: number;
+  states: Record<string, unknown>;
+  /** Leva values by path (e.g. "Physics.gravity"); host controls excluded. */
+  controls: Record<string, unknown>;
+  camera: CameraPose | null;
+  /** Ruler, protractor and stopwatch results shown with the moment. */
+  measurements?: Measurement[];
+  savedAt: number;
+}
+
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
+  zoom: number;
+}
+
+export type SaveTarget = 'library' | 'file';
+
+/** A video of a simulation run, stored with the simulation (services/recordings.ts). */
+export interface SimulationRecording {
+  id: number;
+  name: string;
+  /** Object URL of the WebM file. */
+  url: string;
+  /** Seconds of video. */
+  duration: number;
+  size: number;
+  createdAt: number;
+}
+
+export interface CameraBookmark {
+  name: string;
+  pose: CameraPose;
+}
+
+/**
+ * A result of the in-scene measurement tools. Points are world coordinates;
+ * an angle is measured at its middle point. Stopwatch times are simulated seconds.
+ */
+export type Measurement =
+  | { kind: 'distance'; points: [[number, number, number], [number, number, number]] }
+  | { kind: 'angle'; points: [[number, number, number], [number, number, number], [number, number, number]] }
+  | { kind: 'interval'; start: number; end: number };
+
 export interface SimulationState {
   isLoading: boolean;
   data: SimulationResponse | null;
   error: string | null;
 }
 
-export interface CompiledComponentProps {
-  // Define any props passed to the dynamic component if necessary
+/**
+ * A compiler finding tied to a position in the original componentCode (1-based line, 0-based column).
+ */
+export interface CodeDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+  rule?: string;
+  /** Helper file of a simulation package; absent for the main component. */
+  file?: string;
 }
 
-// Extend Window interface to include Babel
-declare global {
-  interface Window {
-    Babel: {
-      transform: (code: string, options: any) => { code: string };
-    };
-  }
+export interface CompiledComponentProps {
+  // Define any props passed to the dynamic component if necessary
 }
 
 export enum SimulationStatus {
@@ -0,0 +1,215 @@
+import * as THREE from 'three';
+import type { Probes } from './probes';
+
+// ============================================================================
+// ANALYTIC SOLUTIONS
+// Closed-form predictions to hold a simulation against. A sim registers
+// `useAnalytic(name, solution, { actual, unit, duration }, deps)`, where
+// `solution(t)` gets the simulated time since the registration (a sim
+// re-registers when its deps change, in the same commit that resets its own
+// state). After every step the host evaluates it and compares:
+//   number -> with the probe of the same name, or `actual()`. The prediction
+//             is published as the probe "<name> (theory)", plotted dashed
+//             over the probe it predicts.
+//   vector -> with `actual()`. The predicted path is drawn in the scene as a
+//             ghost line, with a marker at the predicted position.
+// The difference (simulated - theory; the distance for vectors) is published
+// as the probe "<name> error". The user can type formulas for probes in the
+// plot panel; those are parsed by formula.ts.
+// ============================================================================
+
+export const GHOST_STEP = 1 / 30; // seconds of simulated time between ghost path points
+const MAX_GHOST_POINTS = 1800;   // 60 s of path
+const DEFAULT_GHOST_COLOR = '#a78bfa';
+
+export type AnalyticValue = number | number[];
+
+export interface AnalyticOptions {
+  /** Simulated value to compare with; numbers default to the probe of the same name. */
+  actual?: () => unknown;
+  unit?: string;
+  /** Ghost colour of vector solutions. */
+  color?: string;
+  /** Draws the ghost path up to this time at once instead of following the clock. */
+  duration?: number;
+}
+
+interface Ghost {
+  group: THREE.Group;
+  line: THREE.Line;
+  marker: THREE.Points;
+  count: number; // path points written
+}
+
+interface Analytic {
+  solve: (t: number) => unknown;
+  options: AnalyticOptions;
+  origin: number;
+  theory: AnalyticValue | null;
+  error: number;
+  ghost: Ghost | null;
+  failed: boolean;
+}
+
+const toValue = (value: unknown): AnalyticValue | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v))) return value.slice();
+  if (value && typeof value === 'object' && 'toArray' in value) return toValue((value as { toArray: () => unknown }).toArray());
+  return null;
+};
+
+const isPoint = (value: AnalyticValue | null): value is number[] =>
+  Array.isArray(value) && (value.length === 2 || value.length === 3);
+
+const difference = (actual: AnalyticValue, theory: AnalyticValue) => {
+  if (typeof actual === 'number' && typeof theory === 'number') return actual - theory;
+  if (typeof actual === 'number' || typeof theory === 'number') return NaN;
+  return Math.hypot(...theory.map((v, i) => (actual[i] ?? 0) - v));
+};
+
+const createGhost = (color: string): Ghost => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(MAX_GHOST_POINTS * 3), 3));
+  geometry.setAttribute('lineDistance', new THREE.BufferAttribute(new Float32Array(MAX_GHOST_POINTS), 1));
+  geometry.setDrawRange(0, 0);
+  const line = new THREE.Line(geometry, new THREE.LineDashedMaterial({ color, dashSize: 0.3, gapSize: 0.2, transparent: true, opacity: 0.7, depthWrite: false }));
+
+  const markerGeometry = new THREE.BufferGeometry();
+  markerGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(3), 3));
+  const marker = new THREE.Points(markerGeometry, new THREE.PointsMaterial({ color, size: 10, sizeAttenuation: false, transparent: true, opacity: 0.8, depthWrite: false }));
+
+  const group = new THREE.Group();
+  [line, marker].forEach(object => {
+    object.frustumCulled = false; // bounds change as the path grows
+    object.raycast = () => {};    // never intercepts the sim's pointer events or the measuring tools
+    group.add(object);
+  });
+  return { group, line, marker, count: 0 };
+};
+
+const disposeGhost = (ghost: Ghost) => {
+  ghost.group.removeFromParent();
+  [ghost.line, ghost.marker].forEach(object => {
+    object.geometry.dispose();
+    (object.material as THREE.Material).dispose();
+  });
+};
+
+export const createAnalytics = (probes: Probes) => {
+  const layer = new THREE.Group();
+  layer.name = 'analytic-solutions';
+  const analytics = new Map<string, Analytic>();
+
+  const evaluate = (name: string, analytic: Analytic, t: number) => {
+    try {
+      return toValue(analytic.solve(t));
+    } catch (err) {
+      if (!analytic.failed) console.warn(`Analytic solution "${name}" could not be evaluated`, err);
+      analytic.failed = true;
+      return null;
+    }
+  };
+
+  const readActual = (name: string, analytic: Analytic, theory: AnalyticValue) => {
+    try {
+      if (analytic.options.actual) return toValue(analytic.options.actual());
+      return typeof theory === 'number' ? toValue(probes.value(name)) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Writes path points up to `until` (or back to it after a rewind) and moves the marker
+  const drawGhost = (name: string, analytic: Analytic, ghost: Ghost, point: number[], t: number) => {
+    const { duration } = analytic.options;
+    const until = duration !== undefined ? Math.max(duration, t) : t;
+    const target = Math.min(MAX_GHOST_POINTS, Math.floor(until / GHOST_STEP + 1e-9) + 1);
+    const geometry = ghost.line.geometry;
+    const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const distances = geometry.getAttribute('lineDistance') as THREE.BufferAttribute;
+    const start = ghost.count;
+
+    if (target < ghost.count) ghost.count = target;
+    while (ghost.count < target) {
+      const value = evaluate(name, analytic, ghost.count * GHOST_STEP);
+      if (!isPoint(value)) break;
+      const i = ghost.count;
+      positions.setXYZ(i, value[0], value[1], value[2] ?? 0);
+      distances.setX(i, i === 0 ? 0 : distances.getX(i - 1) + Math.hypot(
+        value[0] - positions.getX(i - 1), value[1] - positions.getY(i - 1), (value[2] ?? 0) - positions.getZ(i - 1)
+      ));
+      ghost.count++;
+    }
+    if (ghost.count !== start) {
+      geometry.setDrawRange(0, ghost.count);
+      positions.needsUpdate = true;
+      distances.needsUpdate = true;
+    }
+
+    const marker = ghost.marker.geometry.getAttribute('position') as THREE.BufferAttribute;
+    marker.setXYZ(0, point[0], point[1], point[2] ?? 0);
+    marker.needsUpdate = true;
+  };
+
+  return {
+    /** Scene object holding the ghost paths; mount it once. */
+    layer,
+
+    /**
+     * Registers (or replaces) a solution whose t counts from `origin` in
+     * simulated time. Publishes the theory and error probes; returns the
+     * unregister function.
+     */
+    register: (name: string, solve: (t: number) => unknown, options: AnalyticOptions = {}, origin = 0) => {
+      const existing = analytics.get(name);
+      if (existing?.ghost) disposeGhost(existing.ghost);
+      const analytic: Analytic = { solve, options, origin, theory: null, error: NaN, ghost: null, failed: false };
+      analytics.set(name, analytic);
+
+      // Scalars get a plotted theory curve; anything compared gets an error probe
+      const scalar = typeof evaluate(name, analytic, 0) === 'number';
+      const unregisterProbes = [
+        scalar && probes.register(`${name} (theory)`, () => (typeof analytic.theory === 'number' ? analytic.theory : NaN), options.unit, name),
+        (scalar || options.actual) && probes.register(`${name} error`, () => analytic.error, options.unit),
+      ];
+
+      return () => {
+        unregisterProbes.forEach(unregister => unregister && unregister());
+        if (analytics.get(name) !== analytic) return;
+        if (analytic.ghost) disposeGhost(analytic.ghost);
+        analytics.delete(name);
+      };
+    },
+
+    /** Called by the host after each simulation step, before the probes are sampled. */
+    update: (time: number) => {
+      analytics.forEach((analytic, name) => {
+        const t = time - analytic.origin;
+        analytic.theory = null;
+        analytic.error = NaN;
+        if (t < -1e-9) {
+          // Rewound to before the registration: the solution says nothing about this time
+          if (analytic.ghost) analytic.ghost.group.visible = false;
+          return;
+        }
+        const theory = evaluate(name, analytic, Math.max(0, t));
+        if (theory === null) return;
+        analytic.theory = theory;
+
+        const actual = readActual(name, analytic, theory);
+        if (actual !== null) analytic.error = difference(actual, theory);
+
+        if (isPoint(theory)) {
+          if (!analytic.ghost) {
+            analytic.ghost = createGhost(analytic.options.color ?? DEFAULT_GHOST_COLOR);
+            layer.add(analytic.ghost.group);
+          }
+          analytic.ghost.group.visible = true;
+          drawGhost(name, analytic, analytic.ghost, theory, Math.max(0, t));
+        }
+      });
+    },
+  };
+};
+
+export type Analytics = ReturnType<typeof createAnalytics>;
@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { CameraPose } from '../types';
+import { OrbitControlsLike, applyCameraPose, captureCameraPose } from './savedState';
+
+// ============================================================================
+// CAMERA RIG
+// Host-side camera moves on top of the orbit controls: eased transitions to
+// standard views and bookmarks, a sim-declared home pose, and a follow mode
+// that keeps a tagged object centred while the user can still orbit around it.
+// Driven once per frame by DynamicScene, after the sim's callbacks.
+// ============================================================================
+
+export const DEFAULT_CAMERA: CameraPose = { position: [0, 6, 18], target: [0, 0, 0], zoom: 1 };
+
+export type StandardView = 'top' | 'front' | 'side' | 'isometric';
+
+// Directions from the target; top is nudged off the pole so orbiting still works
+const VIEW_DIRECTIONS: Record<StandardView, THREE.Vector3> = {
+  top: new THREE.Vector3(0, 1, 0.001).normalize(),
+  front: new THREE.Vector3(0, 0, 1),
+  side: new THREE.Vector3(1, 0, 0),
+  isometric: new THREE.Vector3(1, 1, 1).normalize(),
+};
+
+export const STANDARD_VIEWS = Object.keys(VIEW_DIRECTIONS) as StandardView[];
+
+const TRANSITION_SECONDS = 0.8;
+const FOLLOW_STIFFNESS = 8; // 1/s; higher tracks tighter, lower smooths jitter
+
+/** Camera a sim asks for with `useInitialCamera`. */
+export interface InitialCamera {
+  position: [number, number, number];
+  target?: [number, number, number];
+  fov?: number;
+}
+
+interface Transition {
+  from: CameraPose;
+  to: CameraPose;
+  elapsed: number;
+}
+
+// Resolved every frame, so the tagged object may mount or change later
+type Trackable = () => { getWorldPosition?: (target: THREE.Vector3) => THREE.Vector3 } | null | undefined;
+
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+const lerpTuple = (a: number[], b: number[], t: number) =>
+  a.map((value, i) => value + (b[i] - value) * t) as [number, number, number];
+
+export const createCameraRig = () => {
+  let controls: OrbitControlsLike | null = null;
+  let home: CameraPose = DEFAULT_CAMERA;
+  let pendingJump: { pose: CameraPose; fov?: number } | null = null;
+  let transition: Transition | null = null;
+  let followed: string | null = null;
+  const targets = new Map<string, Trackable>();
+  const listeners = new Set<() => void>();
+  const scratch = new THREE.Vector3();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  const follow = (name: string | null) => {
+    followed = name && targets.has(name) ? name : null;
+    transition = null;
+    emit();
+  };
+
+  const moveTo = (pose: CameraPose) => {
+    const from = captureCameraPose(controls);
+    if (followed) follow(null);
+    transition = from ? { from, to: pose, elapsed: 0 } : null;
+    if (!from) pendingJump = { pose };
+  };
+
+  const updateFollow = (delta: number) => {
+    const object = followed ? targets.get(followed)?.() : null;
+    if (!controls || !object?.getWorldPosition) return;
+    object.getWorldPosition(scratch);
+    // Move target and camera together so the user's orbit offset is kept
+    const step = scratch.sub(controls.target).multiplyScalar(1 - Math.exp(-FOLLOW_STIFFNESS * delta));
+    controls.target.add(step);
+    controls.object.position.add(step);
+    controls.update();
+  };
+
+  return {
+    /** Hands the rig the scene's orbit controls (null while unmounted). */
+    attach: (next: OrbitControlsLike | null) => { controls = next; },
+
+    get home() { return home; },
+    get followed() { return followed; },
+    pose: () => captureCameraPose(controls),
+
+    /** Sim-declared starting camera; also what "Reset Camera" returns to. */
+    setInitial: (camera: InitialCamera) => {
+      home = { position: camera.position, target: camera.target ?? [0, 0, 0], zoom: 1 };
+      pendingJump = { pose: home, fov: camera.fov };
+    },
+
+    moveTo,
+    follow,
+
+    /** Pose for a standard view around the current target, at the current distance. */
+    viewPose: (view: StandardView): CameraPose => {
+      const current = captureCameraPose(controls) ?? home;
+      const target = new THREE.Vector3().fromArray(current.target);
+      const distance = target.distanceTo(new THREE.Vector3().fromArray(current.position)) || 18;
+      const position = VIEW_DIRECTIONS[view].clone().multiplyScalar(distance).add(target);
+      return { position: position.toArray() as CameraPose['position'], target: current.target, zoom: current.zoom };
+    },
+
+    /** Tags an object the camera can follow. Returns an unregister function. */
+    registerTarget: (name: string, resolve: Trackable) => {
+      targets.set(name, resolve);
+      emit();
+      return () => {
+        if (targets.get(name) !== resolve) return;
+        targets.delete(name);
+        if (followed === name) followed = null;
+        emit();
+      };
+    },
+
+    targetNames: () => Array.from(targets.keys()),
+
+    /** Tagged objects that are currently mounted (also used by the stroboscope). */
+    resolveTargets: (): [string, THREE.Object3D][] =>
+      Array.from(targets.entries())
+        .map(([name, resolve]) => [name, resolve()] as [string, unknown])
+        .filter((entry): entry is [string, THREE.Object3D] => entry[1] instanceof THREE.Object3D),
+
+    update: (delta: number) => {
+      if (!controls) return;
+      if (pendingJump) {
+        const { pose, fov } = pendingJump;
+        pendingJump = null;
+        if (fov && 'fov' in controls.object) (controls.object as { fov: number }).fov = fov;
+        applyCameraPose(controls, pose);
+      }
+      if (transition) {
+        transition.elapsed += delta;
+        const t = easeInOut(Math.min(1, transition.elapsed / TRANSITION_SECONDS));
+        const { from, to } = transition;
+        applyCameraPose(controls, {
+          position: lerpTuple(from.position, to.position, t),
+          target: lerpTuple(from.target, to.target, t),
+          zoom: from.zoom + (to.zoom - from.zoom) * t,
+        });
+        if (t >= 1) transition = null;
+      }
+      updateFollow(delta);
+    },
+
+    /** Notifies on target registration and follow changes (camera menu). */
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export type CameraRig = ReturnType<typeof createCameraRig>;
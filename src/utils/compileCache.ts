@@ -0,0 +1,254 @@
+import { CompilerPolicy } from './policy';
+import { TransformResult } from './transform';
+import { transpile } from './transpiler';
+
+// ============================================================================
+// COMPILE CACHE
+// Babel output is cached by a hash of the wrapped source and the policy, in
+// memory (LRU) and in IndexedDB so reloads skip the transform too. Only the
+// Babel pass is cached; scope, preamble and package linking are rebuilt on
+// every compile, so scope plugins may change without invalidating entries.
+// Bump COMPILE_CACHE_VERSION whenever transform.ts or one of its plugins
+// (policy, loop guard) changes its output; the IndexedDB store is dropped.
+// ============================================================================
+
+export const COMPILE_CACHE_VERSION = 1;
+
+const DB_NAME = 'physigen-compile-cache';
+const STORE = 'transforms';
+const MAX_ENTRY_BYTES = 1024 * 1024;
+const MAX_MEMORY_BYTES = 16 * 1024 * 1024;
+const MAX_PERSISTED_BYTES = 32 * 1024 * 1024;
+const RECENT_LOOKUPS = 12;
+
+export type CacheSource = 'memory' | 'persisted' | 'miss';
+
+export interface CacheLookup {
+  key: string;
+  file?: string;
+  source: CacheSource;
+  ms: number;
+  at: number;
+}
+
+export interface CompileCacheStats {
+  version: number;
+  persistent: boolean;
+  memoryEntries: number;
+  memoryBytes: number;
+  hits: Record<CacheSource, number>;
+  recent: CacheLookup[];
+}
+
+interface CacheRecord {
+  key: string;
+  size: number;
+  lastUsed: number;
+  result: TransformResult;
+}
+
+// --- Hashing ---
+// cyrb53: fast, well distributed, synchronous (crypto.subtle is unavailable in the opaque-origin sandbox)
+const hashString = (text: string, seed = 0) => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+export const compileCacheKey = (sourceCode: string, policy: CompilerPolicy) =>
+  `${hashString(`${COMPILE_CACHE_VERSION}\u0000${JSON.stringify(policy)}\u0000${sourceCode}`)}-${sourceCode.length.toString(36)}`;
+
+const sizeOf = (result: TransformResult) =>
+  (result.code.length + (result.map ? JSON.stringify(result.map).length : 0)) * 2;
+
+// --- Stats ---
+const stats: CompileCacheStats = {
+  version: COMPILE_CACHE_VERSION,
+  persistent: false,
+  memoryEntries: 0,
+  memoryBytes: 0,
+  hits: { memory: 0, persisted: 0, miss: 0 },
+  recent: [],
+};
+const listeners = new Set<(stats: CompileCacheStats) => void>();
+
+const publish = () => {
+  const snapshot = { ...stats, hits: { ...stats.hits }, recent: [...stats.recent] };
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const recordLookup = (lookup: CacheLookup) => {
+  stats.hits[lookup.source]++;
+  stats.recent = [lookup, ...stats.recent].slice(0, RECENT_LOOKUPS);
+  publish();
+};
+
+export const getCompileCacheStats = (): CompileCacheStats => ({ ...stats, hits: { ...stats.hits }, recent: [...stats.recent] });
+
+/**
+ * Subscribes to cache statistics (debug view). Returns an unsubscribe function.
+ */
+export const subscribeCompileCache = (listener: (stats: CompileCacheStats) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// --- Memory tier (LRU by Map insertion order) ---
+const memory = new Map<string, { result: TransformResult; size: number }>();
+
+const rememberInMemory = (key: string, result: TransformResult, size: number) => {
+  const existing = memory.get(key);
+  if (existing) {
+    memory.delete(key);
+    stats.memoryBytes -= existing.size;
+  }
+  memory.set(key, { result, size });
+  stats.memoryBytes += size;
+
+  for (const [oldKey, entry] of memory) {
+    if (stats.memoryBytes <= MAX_MEMORY_BYTES) break;
+    memory.delete(oldKey);
+    stats.memoryBytes -= entry.size;
+  }
+  stats.memoryEntries = memory.size;
+};
+
+// --- Persistent tier (IndexedDB) ---
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves null where IndexedDB is missing or denied (the sandbox iframe, private modes)
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+    try {
+      const request = indexedDB.open(DB_NAME, COMPILE_CACHE_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (db.objectStoreNames.contains(STORE)) db.deleteObjectStore(STORE);
+        // [lastUsed, size] lets pruning walk keys oldest-first without loading results
+        db.createObjectStore(STORE, { keyPath: 'key' }).createIndex('byAge', ['lastUsed', 'size']);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    } catch (e) {
+      resolve(null);
+    }
+  }).then((db) => {
+    stats.persistent = !!db;
+    return db;
+  });
+  return dbPromise;
+};
+
+const readPersisted = async (key: string): Promise<CacheRecord | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+  try {
+    const record = await requestToPromise<CacheRecord | undefined>(db.transaction(STORE).objectStore(STORE).get(key));
+    if (!record) return null;
+    // Touch for LRU pruning; fire and forget
+    db.transaction(STORE, 'readwrite').objectStore(STORE).put({ ...record, lastUsed: Date.now() });
+    return record;
+  } catch (e) {
+    console.warn("Compile cache read failed", e);
+    return null;
+  }
+};
+
+const prunePersisted = async (db: IDBDatabase) => {
+  const index = db.transaction(STORE).objectStore(STORE).index('byAge');
+  const entries: { key: IDBValidKey; size: number }[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      entries.push({ key: cursor.primaryKey, size: (cursor.key as [number, number])[1] });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  if (total <= MAX_PERSISTED_BYTES) return;
+
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  for (const entry of entries) {
+    if (total <= MAX_PERSISTED_BYTES) break;
+    store.delete(entry.key);
+    total -= entry.size;
+  }
+};
+
+const writePersisted = async (record: CacheRecord) => {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).put(record));
+    await prunePersisted(db);
+  } catch (e) {
+    console.warn("Compile cache write failed", e);
+  }
+};
+
+/**
+ * Empties both tiers and resets the statistics.
+ */
+export const clearCompileCache = async () => {
+  memory.clear();
+  stats.memoryEntries = 0;
+  stats.memoryBytes = 0;
+  stats.hits = { memory: 0, persisted: 0, miss: 0 };
+  stats.recent = [];
+  publish();
+
+  const db = await openDatabase();
+  if (db) await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).clear()).catch(() => undefined);
+};
+
+/**
+ * `transpile` behind the cache. Failed transforms (syntax errors) are never cached.
+ * @param file Package file the source belongs to, for the debug view.
+ */
+export const cachedTranspile = async (sourceCode: string, policy: CompilerPolicy, file?: string): Promise<TransformResult> => {
+  const start = performance.now();
+  const key = compileCacheKey(sourceCode, policy);
+  const lookup = (source: CacheSource) => recordLookup({ key, file, source, ms: performance.now() - start, at: Date.now() });
+
+  const cached = memory.get(key);
+  if (cached) {
+    rememberInMemory(key, cached.result, cached.size);
+    lookup('memory');
+    return cached.result;
+  }
+
+  const persisted = await readPersisted(key);
+  if (persisted) {
+    rememberInMemory(key, persisted.result, persisted.size);
+    lookup('persisted');
+    return persisted.result;
+  }
+
+  const result = await transpile(sourceCode, policy);
+  const size = sizeOf(result);
+  if (size <= MAX_ENTRY_BYTES) {
+    rememberInMemory(key, result, size);
+    writePersisted({ key, size, lastUsed: Date.now(), result });
+  }
+  lookup('miss');
+  return result;
+};
@@ -1,131 +1,288 @@
 import React from 'react';
-import * as THREE from 'three';
-import * as Fiber from '@react-three/fiber';
-import * as Drei from '@react-three/drei';
-import * as Leva from 'leva';
-import * as Matter from 'matter-js';
+import type { RawSourceMap } from 'source-map-js';
+import { CodeDiagnostic } from '../types';
+import { ACTIVE_POLICY, CompilerPolicy } from './policy';
+import { cachedTranspile } from './compileCache';
+import { SIMULATION_SOURCE_URL, SimulationSourceMap, createSimulationSourceMap, linkSourceMaps, packageSourceURL } from './sourceMap';
+import { ModuleRegistry, createRequire, rewriteImports } from './modules';
+import { ScopePlugin, getScopePlugins, resolveScope } from './scope';
+import { DEFAULT_LOOP_BUDGET, LoopSite, createLoopGuard } from './cpuBudget';
+import { PackageFiles, assetModule, isCodeFile, resolvePackagePath } from './linker';
+import { TypeCheckMode, typeCheckModeFor, typeCheckSimulation } from './typeCheck';
+import { declareScope } from './scopeDeclarations';
 
 /**
- * Transpiles and evaluates a string of React code into a usable Component.
- * @param codeBody The body of the functional component (hooks + return statement).
- * @param overrides Optional dictionary of hooks/functions to override in the component scope.
- * @returns A React Functional Component.
+ * Thrown when simulation code is rejected before evaluation.
+ * Carries diagnostics with positions in the original code.
  */
-export const compileComponent = (
-  codeBody: string, 
-  overrides: { useFrame?: typeof Fiber.useFrame } = {}
-): React.FC<any> | null => {
+export class CompileError extends Error {
+  diagnostics: CodeDiagnostic[];
+
+  constructor(message: string, diagnostics: CodeDiagnostic[]) {
+    super(message);
+    this.name = 'CompileError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+export interface CompiledSimulation {
+  Component: React.FC<any>;
+  sourceMap: SimulationSourceMap;
+  /** Type-check findings; resolves in the background (empty when the check is off). */
+  typeDiagnostics: Promise<CodeDiagnostic[]>;
+}
+
+export interface CompileOptions {
+  /** Per-compilation scope plugins, applied after the registered ones. */
+  plugins?: ScopePlugin[];
+  /** Static safety policy checked before evaluation. */
+  policy?: CompilerPolicy;
+  /** Maximum iterations of a single loop run before it is aborted. */
+  loopBudget?: number;
+  /** Helper files of a simulation package, importable from the main component by relative path. */
+  files?: PackageFiles;
+  /** Package path of the main component; its relative imports resolve from its directory. */
+  entry?: string;
+  /** Whether to run the TypeScript checker, and whether its errors block evaluation (default: as for untrusted code). */
+  typeCheck?: TypeCheckMode;
+}
+
+// Babel prefixes messages with the file name and appends a code frame; keep the headline only
+const babelHeadline = (message: string) =>
+  message.split('\n')[0].replace(/^.*?dynamic\.tsx:\s*/, '').replace(/\s*\(\d+:\d+\)$/, '');
+
+const inFile = (file?: string) => (file ? ` in ${file}` : '');
+
+interface TranspiledUnit {
+  code: string;
+  map: RawSourceMap | null;
+  loopSites: LoopSite[];
+}
+
+/**
+ * Runs Babel over one unit (main component or helper file) and enforces the safety policy.
+ * Diagnostics are reported against the unit's original code.
+ */
+const transpileUnit = async (
+  sourceCode: string,
+  lineOffset: number,
+  policy: CompilerPolicy,
+  file?: string
+): Promise<TranspiledUnit> => {
+  const wrapperMap = createSimulationSourceMap({ lineOffset, preambleLines: 0, file });
+
+  let result;
   try {
-    let cleanBody = codeBody.trim();
-
-    // 1. Aggressively remove Import statements
-    cleanBody = cleanBody.replace(/^\s*import\s+[\s\S]*?;\s*$/gm, '');
-    cleanBody = cleanBody.replace(/^\s*import\s+.*$/gm, '');
-
-    // 2. Determine Compilation Strategy
-    let sourceCode = '';
-    let returnStatement = '';
-    
-    const hasExportDefault = /export\s+default\s+/.test(cleanBody);
-
-    if (hasExportDefault) {
-      // STRATEGY A: Handle Full Module
-      const funcMatch = cleanBody.match(/export\s+default\s+function\s+([a-zA-Z0-9_]+)/);
-      const varMatch = cleanBody.match(/export\s+default\s+([a-zA-Z0-9_]+)/);
-      
-      if (funcMatch) {
-        cleanBody = cleanBody.replace(/export\s+default\s+function/, 'function');
-        returnStatement = `return ${funcMatch[1]};`;
-      } else if (varMatch) {
-        cleanBody = cleanBody.replace(/export\s+default\s+[a-zA-Z0-9_]+;?/, '');
-        returnStatement = `return ${varMatch[1]};`;
-      } else {
-        cleanBody = cleanBody.replace(/export\s+default\s+/, 'const DynamicComponent = ');
-        returnStatement = `return DynamicComponent;`;
-      }
-      sourceCode = cleanBody;
+    result = await cachedTranspile(sourceCode, policy, file);
+  } catch (babelErr: any) {
+    console.error("Babel Transform Failed on:", sourceCode);
+    if (!babelErr?.loc) throw babelErr;
+    const loc = wrapperMap.fromWrapped(babelErr.loc.line, babelErr.loc.column);
+    const message = babelHeadline(babelErr.message);
+    throw new CompileError(`Syntax error${inFile(file)}: ${message}`, [{ severity: 'error', message, ...loc }]);
+  }
+
+  // Enforce the safety policy before anything is evaluated
+  const diagnostics = result.findings.map(d => ({ ...d, ...wrapperMap.fromWrapped(d.line, d.column) }));
+  const violations = diagnostics.filter(d => d.severity === 'error');
+  diagnostics
+    .filter(d => d.severity === 'warning')
+    .forEach(d => console.warn(`Policy warning (${d.rule})${inFile(file)} at ${d.line}:${d.column}: ${d.message}`));
+
+  if (violations.length > 0) {
+    throw new CompileError(
+      `Blocked by the "${policy.name}" safety policy (${violations.length} violation${violations.length > 1 ? 's' : ''}${inFile(file)})`,
+      violations
+    );
+  }
+
+  return {
+    code: result.code,
+    map: result.map,
+    loopSites: result.loopSites.map(site => wrapperMap.fromWrapped(site.line, site.column)),
+  };
+};
+
+/**
+ * Resolves Import statements against the module registry and the package's files
+ * (rewritten in place, lines preserved). `file` names a helper in diagnostics;
+ * `from` is the path relative imports resolve from (the entry for the main component).
+ */
+const resolveImports = (code: string, registry: ModuleRegistry, files: PackageFiles, file?: string, from = file) => {
+  const imports = rewriteImports(code, specifier => specifier in registry || resolvePackagePath(files, from, specifier) !== null);
+  if (imports.diagnostics.length > 0) {
+    throw new CompileError(
+      `Unknown module${imports.diagnostics.length > 1 ? 's' : ''} imported${inFile(file)}`,
+      imports.diagnostics.map(d => (file ? { ...d, file } : d))
+    );
+  }
+  return imports.code;
+};
+
+// Named exports have no consumer here; keep the declarations, drop the keyword
+const stripNamedExports = (code: string) => code.replace(/^(\s*)export\s+(?=(const|let|var|function|class)\b)/gm, '$1');
+
+/**
+ * Steps shared by compileComponent and checkSimulation: import resolution,
+ * strategy selection, transpilation (which enforces the policy) and the type check.
+ */
+const prepareSimulation = async (codeBody: string, options: CompileOptions) => {
+  const {
+    plugins = [],
+    policy = ACTIVE_POLICY,
+    typeCheck = typeCheckModeFor(false),
+    files = {},
+    entry,
+  } = options;
+
+  const scope = resolveScope([...getScopePlugins(), ...plugins]);
+  const registry = scope.modules;
+
+  // Only trim the end: leading lines must survive so diagnostics line up with the original code
+  const trimmedBody = codeBody.trimEnd();
+
+  // 1. Resolve Import statements (registry modules and package files)
+  let cleanBody = stripNamedExports(resolveImports(trimmedBody, registry, files, undefined, entry));
+
+  // 2. Determine Compilation Strategy
+  let sourceCode = '';
+  let returnStatement = '';
+  let lineOffset = 0; // wrapper lines inserted above the original code
+
+  const hasExportDefault = /export\s+default\s+/.test(cleanBody);
+
+  if (hasExportDefault) {
+    // STRATEGY A: Handle Full Module
+    const funcMatch = cleanBody.match(/export\s+default\s+function\s+([a-zA-Z0-9_]+)/);
+    const varMatch = cleanBody.match(/export\s+default\s+([a-zA-Z0-9_]+)/);
+
+    if (funcMatch) {
+      cleanBody = cleanBody.replace(/export\s+default\s+function/, 'function');
+      returnStatement = `return ${funcMatch[1]};`;
+    } else if (varMatch) {
+      cleanBody = cleanBody.replace(/export\s+default\s+[a-zA-Z0-9_]+;?/, '');
+      returnStatement = `return ${varMatch[1]};`;
     } else {
-      // STRATEGY B: Handle Body Only
-      sourceCode = `
-        const DynamicComponent = (props) => {
-          ${cleanBody}
-        };
-      `;
+      cleanBody = cleanBody.replace(/export\s+default\s+/, 'const DynamicComponent = ');
       returnStatement = `return DynamicComponent;`;
     }
+    sourceCode = cleanBody;
+  } else {
+    // STRATEGY B: Handle Body Only
+    sourceCode = `const DynamicComponent = (props) => {\n${cleanBody}\n};`;
+    returnStatement = `return DynamicComponent;`;
+    lineOffset = 1;
+  }
 
-    // 3. Transpile JSX/TSX to ES5 using Babel Standalone
-    if (!window.Babel) {
-      throw new Error("Babel not loaded. Please ensure Babel is included in index.html");
-    }
+  // The type check reads the code before import rewriting, against declarations of this scope
+  const typeDiagnostics = typeCheck === 'off'
+    ? Promise.resolve([])
+    : typeCheckSimulation({ code: stripNamedExports(trimmedBody), wrapped: !hasExportDefault, files, entry, declarations: declareScope(scope) });
+
+  // 3. Transpile JSX/TSX to ES5 using the bundled Babel (off the render thread when possible,
+  // skipped entirely on a compile cache hit).
+  // Helper files keep their exports; Babel turns them into CommonJS `exports.x = ...`.
+  const helperPaths = Object.keys(files).filter(isCodeFile);
+  const [main, ...helpers] = await Promise.all([
+    transpileUnit(sourceCode, lineOffset, policy),
+    ...helperPaths.map(path => transpileUnit(resolveImports(files[path].trimEnd(), registry, files, path), 0, policy, path)),
+  ]);
 
-    let transformed;
-    try {
-      transformed = window.Babel.transform(sourceCode, {
-        // FIX: Added 'typescript' preset to handle .tsx generics like useRef<Type>
-        presets: ['react', 'env', 'typescript'], 
-        filename: 'dynamic.tsx', // FIX: .tsx extension triggers TS parsing
-        compact: false,
-      }).code;
-    } catch (babelErr) {
-      console.error("Babel Transform Failed on:", sourceCode);
-      throw babelErr;
+  // In 'error' mode the type check gates evaluation like the safety policy
+  if (typeCheck === 'error') {
+    const blocking = (await typeDiagnostics).filter(d => d.severity === 'error');
+    if (blocking.length > 0) {
+      throw new CompileError(`Type check failed (${blocking.length} error${blocking.length > 1 ? 's' : ''})`, blocking);
     }
+  }
 
-    // 4. Create a Function that returns the component.
-    const createComponent = new Function(
-      'React',
-      'THREE',
-      'three', 
-      'useFrame',
-      'useThree',
-      'useLoader',
-      'drei',
-      'drive',
-      'leva',
-      'ReactThreeFiber',
-      'Matter',
-      `
-      // Inject React Hooks into Top-Level Scope
-      const { useState, useEffect, useRef, useMemo, useCallback, useLayoutEffect, useReducer } = React;
-      
-      // Inject Leva Hooks into Top-Level Scope
-      const { useControls, button, folder, monitor } = leva;
-
-      // Inject Common Drei Components into Top-Level Scope
-      const { 
-        Html, Text, Text3D, Float, Center, 
-        OrbitControls, Environment, ContactShadows, 
-        PerspectiveCamera, OrthographicCamera, Grid 
-      } = drei;
-      
-      ${transformed}
-      
-      ${returnStatement}
-      `
-    );
+  return { scope, registry, files, entry, returnStatement, lineOffset, helperPaths, main, helpers, typeDiagnostics };
+};
+
+/**
+ * Transpiles and evaluates a string of React code into a usable Component.
+ * @param codeBody The body of the functional component (hooks + return statement).
+ * @param options Extra scope plugins, the safety policy, type-check mode and package helper files.
+ * @returns A promise for the React Functional Component and a map back to the original code.
+ */
+export const compileComponent = async (
+  codeBody: string,
+  options: CompileOptions = {}
+): Promise<CompiledSimulation> => {
+  const { loopBudget = DEFAULT_LOOP_BUDGET } = options;
+
+  try {
+    const { scope, registry, files, entry, returnStatement, lineOffset, helperPaths, main, helpers, typeDiagnostics } =
+      await prepareSimulation(codeBody, options);
+
+    typeDiagnostics.then(diagnostics => diagnostics.forEach(d =>
+      console.warn(`Type check (${d.rule})${inFile(d.file)} at ${d.line}:${d.column}: ${d.message}`)
+    ));
 
-    // Ensure we have the correct Matter object
-    const safeMatter = (Matter as any).default || Matter;
-
-    // 5. Execute the creator function
-    const Component = createComponent(
-      React,
-      THREE,
-      THREE, 
-      overrides.useFrame || Fiber.useFrame,
-      Fiber.useThree,
-      Fiber.useLoader,
-      Drei,
-      Drei,
-      Leva,
-      Fiber,
-      safeMatter
+    // 4. Create Functions for the component and each helper module.
+    // Plugin destructures, then an own scope so imports may redeclare injected names
+    const preamble = `${scope.preamble}\nreturn (function () {\n`;
+    const preambleLines = preamble.split('\n').length - 1;
+    const params = [...scope.names, '__require', '__loopEnter', '__loopTick'];
+
+    // sourceURL names the frames in stack traces so runtime errors can be mapped back
+    const functionBody = `${preamble}${main.code}\n${returnStatement}\n})();\n//# sourceURL=${SIMULATION_SOURCE_URL}`;
+    const createComponent = new Function(...params, functionBody);
+
+    const helperFactories: Record<string, Function> = {};
+    helperPaths.forEach((path, i) => {
+      const body = `${preamble}${helpers[i].code}\n})();\n//# sourceURL=${packageSourceURL(path)}`;
+      helperFactories[path] = new Function(...params, 'exports', body);
+    });
+
+    const sourceMap = linkSourceMaps(
+      createSimulationSourceMap({ map: main.map, lineOffset, preambleLines }),
+      helperPaths.map((path, i) => createSimulationSourceMap({ map: helpers[i].map, lineOffset: 0, preambleLines, file: path }))
     );
 
-    return Component;
+    // 5. Link: helper modules are evaluated on first import and cached (CommonJS semantics, cycles allowed)
+    const baseRequire = createRequire(registry);
+    const moduleCache = new Map<string, any>();
+
+    const requireFrom = (fromFile?: string) => (specifier: string) => {
+      const path = resolvePackagePath(files, fromFile, specifier);
+      if (!path) return baseRequire(specifier);
+      if (moduleCache.has(path)) return moduleCache.get(path);
+
+      if (!isCodeFile(path)) {
+        moduleCache.set(path, assetModule(path, files[path]));
+        return moduleCache.get(path);
+      }
+
+      const exports = {};
+      moduleCache.set(path, exports);
+      const guard = createLoopGuard(helpers[helperPaths.indexOf(path)].loopSites, loopBudget);
+      helperFactories[path](...scope.values, requireFrom(path), guard.__loopEnter, guard.__loopTick, exports);
+      return exports;
+    };
+
+    // 6. Execute the creator function
+    const guard = createLoopGuard(main.loopSites, loopBudget);
+    const Component = createComponent(...scope.values, requireFrom(entry), guard.__loopEnter, guard.__loopTick);
+
+    return { Component, sourceMap, typeDiagnostics };
   } catch (err) {
     console.error("Compilation Error:", err);
     throw err;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Runs every static stage (imports, syntax, safety policy, type check) without
+ * evaluating the code, e.g. to validate generated code before showing it.
+ * @returns Blocking diagnostics, empty when the simulation is expected to compile.
+ */
+export const checkSimulation = async (codeBody: string, options: CompileOptions = {}): Promise<CodeDiagnostic[]> => {
+  try {
+    const { typeDiagnostics } = await prepareSimulation(codeBody, options);
+    return (await typeDiagnostics).filter(d => d.severity === 'error');
+  } catch (err) {
+    if (err instanceof CompileError) return err.diagnostics;
+    throw err;
+  }
+};
@@ -0,0 +1,92 @@
+// ============================================================================
+// CPU BUDGET
+// Two guards keep a runaway simulation from freezing the tab:
+//   1. Loop instrumentation: every loop gets an iteration counter at compile
+//      time and throws once a single run of the loop exceeds the budget.
+//   2. Frame watchdog: the useFrame gatekeeper times each callback and trips
+//      when one keeps running over the per-frame budget.
+// This module has no DOM or React imports so the Babel plugin can run in the worker.
+// ============================================================================
+
+export const DEFAULT_LOOP_BUDGET = 1_000_000;
+export const FRAME_BUDGET_MS = 50;
+export const FRAME_BUDGET_STRIKES = 20; // consecutive over-budget frames before tripping
+
+export interface LoopSite {
+  line: number;
+  column: number;
+  file?: string;
+}
+
+export class LoopBudgetError extends Error {
+  site: LoopSite;
+
+  constructor(site: LoopSite, budget: number) {
+    super(`Loop at ${site.file ? `${site.file}:` : 'line '}${site.line} ran more than ${budget.toLocaleString()} iterations`);
+    this.name = 'LoopBudgetError';
+    this.site = site;
+  }
+}
+
+/**
+ * Babel plugin that brackets every loop with `__loopEnter(id)` and `__loopTick(id)`.
+ * Loop positions (relative to the Babel input) are appended to `sites`.
+ */
+export const createLoopGuardPlugin = (sites: LoopSite[]) => ({ types: t }: any) => {
+  const guarded = new WeakSet<object>(); // replaced bodies are re-queued; instrument each loop once
+  const call = (name: string, id: number) =>
+    t.expressionStatement(t.callExpression(t.identifier(name), [t.numericLiteral(id)]));
+
+  const instrument = (path: any) => {
+    if (guarded.has(path.node)) return;
+    guarded.add(path.node);
+
+    const id = sites.length;
+    sites.push({ line: path.node.loc?.start.line ?? 0, column: path.node.loc?.start.column ?? 0 });
+
+    const body = path.get('body');
+    if (body.isBlockStatement()) body.unshiftContainer('body', call('__loopTick', id));
+    else body.replaceWith(t.blockStatement([call('__loopTick', id), body.node]));
+
+    // Labels must stay attached to the loop itself
+    const anchor = path.parentPath.isLabeledStatement() ? path.parentPath : path;
+    anchor.insertBefore(call('__loopEnter', id));
+  };
+
+  return {
+    visitor: {
+      'ForStatement|WhileStatement|DoWhileStatement|ForInStatement|ForOfStatement': {
+        exit: instrument,
+      },
+    },
+  };
+};
+
+/**
+ * Runtime half of the loop guard, injected into the compiled scope.
+ */
+export const createLoopGuard = (sites: LoopSite[], budget = DEFAULT_LOOP_BUDGET) => {
+  const counts: number[] = [];
+  return {
+    __loopEnter: (id: number) => { counts[id] = 0; },
+    __loopTick: (id: number) => {
+      counts[id] = (counts[id] || 0) + 1;
+      if (counts[id] > budget) throw new LoopBudgetError(sites[id] || { line: 0, column: 0 }, budget);
+    },
+  };
+};
+
+/**
+ * Tracks one useFrame callback. Returns true when it has been over budget
+ * for `strikes` consecutive frames.
+ */
+export const createFrameBudgetTracker = (budgetMs = FRAME_BUDGET_MS, strikes = FRAME_BUDGET_STRIKES) => {
+  let overBudget = 0;
+  return {
+    record: (elapsedMs: number) => {
+      overBudget = elapsedMs > budgetMs ? overBudget + 1 : 0;
+      return overBudget >= strikes;
+    },
+    reset: () => { overBudget = 0; },
+  };
+};
@@ -0,0 +1,170 @@
+// ============================================================================
+// DATA RECORDER
+// Captures probe samples for analysis outside the app. Every recorded row has
+// the simulated time, the value of each probe and the sim's control values at
+// that moment. Rows can be thinned to every n-th probe sample, and a capture
+// can be limited to a window [t0, t1] of simulated time: it waits for t0 and
+// finishes by itself after t1. Stepping back in time drops the rows from the
+// abandoned future, like the probe history does.
+// ============================================================================
+
+export type DataFormat = 'csv' | 'json' | 'jsonl';
+export type DataRecorderState = 'idle' | 'waiting' | 'recording' | 'done';
+
+// leva options (label -> keep every n-th probe sample; probes sample at 30 Hz)
+export const DATA_RATE_OPTIONS: Record<string, number> = { '30 Hz': 1, '15 Hz': 2, '10 Hz': 3, '5 Hz': 6, '1 Hz': 30 };
+export const DATA_FORMAT_OPTIONS: Record<string, DataFormat> = { 'CSV': 'csv', 'JSON': 'json', 'JSON Lines': 'jsonl' };
+
+export const DATA_FORMAT_TYPES: Record<DataFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: '.csv', mimeType: 'text/csv' },
+  json: { extension: '.json', mimeType: 'application/json' },
+  jsonl: { extension: '.jsonl', mimeType: 'application/x-ndjson' },
+};
+
+export interface DataRow {
+  time: number;
+  probes: Record<string, number>;
+  parameters: Record<string, unknown>;
+}
+
+export interface DataCapture {
+  simulation: string;
+  recordedAt: string;
+  /** Probe units by name, for the probes that have one. */
+  units: Record<string, string>;
+  rows: DataRow[];
+}
+
+export interface DataRecorderStatus {
+  state: DataRecorderState;
+  rows: number;
+}
+
+export interface DataRecorderOptions {
+  /** Keep every n-th probe sample. */
+  every: number;
+  /** Simulated-time window; unbounded when absent. */
+  from?: number;
+  to?: number;
+}
+
+export const createDataRecorder = () => {
+  let state: DataRecorderState = 'idle';
+  let options: DataRecorderOptions = { every: 1 };
+  let rows: DataRow[] = [];
+  let seen = 0;
+  const listeners = new Set<(status: DataRecorderStatus) => void>();
+
+  const emit = () => listeners.forEach(listener => listener({ state, rows: rows.length }));
+
+  const finish = () => {
+    state = 'done';
+    emit();
+  };
+
+  return {
+    status: (): DataRecorderStatus => ({ state, rows: rows.length }),
+    get active() { return state === 'waiting' || state === 'recording'; },
+
+    start: (next: DataRecorderOptions) => {
+      options = { ...next, every: Math.max(1, Math.round(next.every)) };
+      rows = [];
+      seen = 0;
+      state = options.from === undefined ? 'recording' : 'waiting';
+      emit();
+    },
+
+    /** One probe sample; `readParameters` is only called for rows that are kept. */
+    record: (time: number, probes: Record<string, number>, readParameters: () => Record<string, unknown>) => {
+      if (state !== 'waiting' && state !== 'recording') return;
+      if (rows.length > 0 && time < rows[rows.length - 1].time) {
+        rows = rows.filter(row => row.time <= time);
+      }
+      if (options.from !== undefined && time < options.from) return;
+      if (options.to !== undefined && time > options.to) {
+        finish();
+        return;
+      }
+      if (state === 'waiting') {
+        state = 'recording';
+        emit();
+      }
+      if (seen++ % options.every !== 0) return;
+      rows.push({ time, probes, parameters: readParameters() });
+    },
+
+    /** Ends the capture; the rows stay available for export. */
+    stop: () => {
+      if (state === 'waiting' || state === 'recording') finish();
+    },
+
+    /** Ends the capture and forgets the rows (e.g. another sim was loaded). */
+    discard: () => {
+      rows = [];
+      seen = 0;
+      state = 'idle';
+      emit();
+    },
+
+    capture: (simulation: string, units: Record<string, string>): DataCapture => ({
+      simulation,
+      recordedAt: new Date().toISOString(),
+      units,
+      rows: rows.slice(),
+    }),
+
+    subscribe: (listener: (status: DataRecorderStatus) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export type DataRecorder = ReturnType<typeof createDataRecorder>;
+
+// --- Export formats ---
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Probes and parameters can come and go during a capture; columns are the union
+const columnsOf = (rows: DataRow[], pick: (row: DataRow) => Record<string, unknown>) => {
+  const names = new Set<string>();
+  rows.forEach(row => Object.keys(pick(row)).forEach(name => names.add(name)));
+  return [...names];
+};
+
+/**
+ * One row per sample: `simulation,time,<probe> (<unit>)...,<parameter path>...`.
+ * The simulation column keeps files concatenable.
+ */
+const toCsv = (capture: DataCapture) => {
+  const probes = columnsOf(capture.rows, row => row.probes);
+  const parameters = columnsOf(capture.rows, row => row.parameters);
+  const header = ['simulation', 'time', ...probes.map(name => (capture.units[name] ? `${name} (${capture.units[name]})` : name)), ...parameters];
+  const lines = capture.rows.map(row => [
+    capture.simulation,
+    row.time,
+    ...probes.map(name => row.probes[name]),
+    ...parameters.map(path => row.parameters[path]),
+  ].map(csvCell).join(','));
+  return [header.map(csvCell).join(','), ...lines].join('\n') + '\n';
+};
+
+const toJson = (capture: DataCapture) =>
+  JSON.stringify({ format: 'physigen-probe-data', version: 1, ...capture }, null, 2);
+
+/** One self-contained object per line. */
+const toJsonLines = (capture: DataCapture) =>
+  capture.rows.map(row => JSON.stringify({ simulation: capture.simulation, ...row, units: capture.units })).join('\n') + '\n';
+
+export const formatDataCapture = (capture: DataCapture, format: DataFormat) => {
+  switch (format) {
+    case 'csv': return toCsv(capture);
+    case 'json': return toJson(capture);
+    case 'jsonl': return toJsonLines(capture);
+  }
+};
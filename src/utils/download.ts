@@ -0,0 +1,19 @@
+// Browsers start reading the blob after click() returns; revoking right away
+// can cancel large downloads, so the URL is kept alive for a while
+const REVOKE_DELAY_MS = 60_000;
+
+/**
+ * Offers a blob as a file download. Works inside the sandbox iframe too
+ * (it is allowed downloads).
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+/** Filesystem-safe version of a title. */
+export const toFilename = (title: string) => title.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'simulation';
@@ -0,0 +1,163 @@
+// ============================================================================
+// FORMULAS
+// Formulas typed by the user in the plot panel, such as
+// `envTemp + (startTemp - envTemp) * exp(-k * t)`. They are parsed by a small
+// grammar rather than evaluated as JavaScript, so nothing typed there can run
+// code, loop or reach the page:
+//   formula := sum
+//   sum     := product (('+' | '-') product)*
+//   product := unary (('*' | '/' | '%') unary)*
+//   unary   := ('-' | '+') unary | power
+//   power   := primary (('^' | '**') unary)?
+//   primary := number | name | name '(' formula (',' formula)* ')' | '(' formula ')'
+// Names are `t`, the sim's controls and Math's constants; calls are Math's
+// functions. Either may carry the `Math.` prefix.
+// ============================================================================
+
+type Node = (t: number, controls: Record<string, number>) => number;
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+const TOKEN = /\s*(?:(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_$][\w$]*)|(\*\*|[-+*/%^(),.]))/y;
+
+type Token = { kind: 'number' | 'name' | 'symbol'; text: string; at: number };
+
+const tokenize = (source: string) => {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < source.length) {
+    const at = TOKEN.lastIndex;
+    const match = TOKEN.exec(source);
+    if (!match) {
+      if (source.slice(at).trim() === '') break;
+      throw new FormulaError(`Unexpected "${source.slice(at).trim()[0]}" at ${at + 1}`);
+    }
+    const [, number, name, symbol] = match;
+    if (number !== undefined) tokens.push({ kind: 'number', text: number, at });
+    else if (name !== undefined) tokens.push({ kind: 'name', text: name, at });
+    else tokens.push({ kind: 'symbol', text: symbol, at });
+  }
+  return tokens;
+};
+
+const MATH = Math as unknown as Record<string, unknown>;
+const isMathFunction = (name: string) => Object.prototype.hasOwnProperty.call(Math, name) && typeof MATH[name] === 'function';
+const isMathConstant = (name: string) => Object.prototype.hasOwnProperty.call(Math, name) && typeof MATH[name] === 'number';
+
+// Controls by leva path ("Folder.k") -> by their own name ("k")
+const controlName = (path: string) => path.split('.').pop()!;
+
+const parse = (source: string, controls: Set<string>): Node => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isSymbol = (text: string) => peek()?.kind === 'symbol' && peek().text === text;
+  const expect = (text: string) => {
+    if (!isSymbol(text)) throw new FormulaError(peek() ? `Expected "${text}" at ${peek().at + 1}` : `Expected "${text}" at the end`);
+    index++;
+  };
+
+  const binary = (next: () => Node, operators: Record<string, (a: number, b: number) => number>) => () => {
+    let left = next();
+    while (peek()?.kind === 'symbol' && peek().text in operators) {
+      const apply = operators[tokens[index++].text];
+      const a = left;
+      const b = next();
+      left = (t, values) => apply(a(t, values), b(t, values));
+    }
+    return left;
+  };
+
+  const name = (): string => {
+    const token = tokens[index++];
+    if (token.text === 'Math' && isSymbol('.')) {
+      index++;
+      const member = tokens[index++];
+      if (member?.kind !== 'name') throw new FormulaError(`Expected a Math function or constant after "Math."`);
+      return member.text;
+    }
+    return token.text;
+  };
+
+  const primary = (): Node => {
+    const token = peek();
+    if (!token) throw new FormulaError('The formula ends too early');
+    if (token.kind === 'number') {
+      index++;
+      const value = Number(token.text);
+      return () => value;
+    }
+    if (isSymbol('(')) {
+      index++;
+      const inner = sum();
+      expect(')');
+      return inner;
+    }
+    if (token.kind !== 'name') throw new FormulaError(`Unexpected "${token.text}" at ${token.at + 1}`);
+
+    const id = name();
+    if (isSymbol('(')) {
+      if (!isMathFunction(id)) throw new FormulaError(`Unknown function "${id}"`);
+      index++;
+      const args: Node[] = isSymbol(')') ? [] : [sum()];
+      while (isSymbol(',')) {
+        index++;
+        args.push(sum());
+      }
+      expect(')');
+      const fn = MATH[id] as (...values: number[]) => number;
+      return (t, values) => fn(...args.map(arg => arg(t, values)));
+    }
+    if (id === 't') return t => t;
+    if (controls.has(id)) return (_, values) => values[id];
+    if (isMathConstant(id)) {
+      const value = MATH[id] as number;
+      return () => value;
+    }
+    throw new FormulaError(`Unknown name "${id}"; use t, a control name or a Math function`);
+  };
+
+  const unary = (): Node => {
+    if (isSymbol('-') || isSymbol('+')) {
+      const negate = tokens[index++].text === '-';
+      const operand = unary();
+      return negate ? (t, values) => -operand(t, values) : operand;
+    }
+    const base = primary();
+    if (isSymbol('^') || isSymbol('**')) {
+      index++;
+      const exponent = unary(); // right-associative: 2^3^2 = 2^9
+      return (t, values) => Math.pow(base(t, values), exponent(t, values));
+    }
+    return base;
+  };
+
+  const product = binary(unary, { '*': (a, b) => a * b, '/': (a, b) => a / b, '%': (a, b) => a % b });
+  const sum = binary(product, { '+': (a, b) => a + b, '-': (a, b) => a - b });
+
+  if (tokens.length === 0) throw new FormulaError('The formula is empty');
+  const root = sum();
+  if (index < tokens.length) throw new FormulaError(`Unexpected "${tokens[index].text}" at ${tokens[index].at + 1}`);
+  return root;
+};
+
+/**
+ * Parses a formula of `t` and the controls at `controlPaths` (leva paths).
+ * Throws a FormulaError naming the problem; the result reads the controls'
+ * values by path each time it is evaluated.
+ */
+export const compileFormula = (source: string, controlPaths: string[]) => {
+  const root = parse(source, new Set(controlPaths.map(controlName)));
+
+  return (t: number, controls: Record<string, unknown>) => {
+    const values: Record<string, number> = {};
+    Object.entries(controls).forEach(([path, value]) => { values[controlName(path)] = Number(value); });
+    return root(t, values);
+  };
+};
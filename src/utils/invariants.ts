@@ -0,0 +1,162 @@
+// ============================================================================
+// INVARIANTS
+// Sims declare conserved quantities with
+// `useInvariant(name, read, { tolerance, unit, scale }, deps)`. The host reads
+// each one at a fixed interval of simulated time after the sim has stepped and
+// compares it with its value at the start of the run (the baseline):
+//   drift = |value - baseline| / max(|baseline|, scale)
+// Vectors (momentum) use the length of the difference. Drift beyond the
+// tolerance is reported once per baseline. The baseline is taken again when
+// the declaration changes (name, options or deps, e.g. a control the quantity
+// depends on) and when time steps backwards.
+// ============================================================================
+
+export const INVARIANT_CHECK_INTERVAL = 1 / 20; // seconds of simulated time between checks
+export const DEFAULT_INVARIANT_TOLERANCE = 0.01;
+const DEFAULT_SCALE = 1e-6; // floor for quantities whose baseline is zero
+
+export type InvariantValue = number | number[];
+
+export interface InvariantOptions {
+  /** Allowed relative drift, e.g. 0.01 for 1%. */
+  tolerance?: number;
+  unit?: string;
+  /** Reference magnitude when the baseline is (near) zero. */
+  scale?: number;
+}
+
+export interface InvariantStatus {
+  name: string;
+  unit?: string;
+  tolerance: number;
+  value: InvariantValue | null;
+  baseline: InvariantValue | null;
+  /** Relative drift at the last check. */
+  drift: number;
+  maxDrift: number;
+  /** Simulated time the tolerance was first exceeded; null while within it. */
+  violatedAt: number | null;
+}
+
+interface Invariant extends InvariantStatus {
+  read: () => InvariantValue;
+  scale: number;
+  failed: boolean;
+}
+
+const magnitude = (value: InvariantValue) =>
+  typeof value === 'number' ? Math.abs(value) : Math.hypot(...value);
+
+const difference = (value: InvariantValue, baseline: InvariantValue) => {
+  if (typeof value === 'number' || typeof baseline === 'number') return Math.abs(Number(value) - Number(baseline));
+  return Math.hypot(...value.map((v, i) => v - (baseline[i] ?? 0)));
+};
+
+const normalize = (value: unknown): InvariantValue | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v))) return value.slice();
+  if (value && typeof value === 'object' && 'toArray' in value) return normalize((value as { toArray: () => unknown }).toArray());
+  return null;
+};
+
+export const formatDrift = (drift: number) => `${(drift * 100).toFixed(drift < 0.1 ? 2 : 1)}%`;
+
+export const createInvariantChecker = () => {
+  const invariants = new Map<string, Invariant>();
+  const listeners = new Set<() => void>();
+  let lastCheck = -Infinity;
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  const rebaseline = (invariant: Invariant) => {
+    invariant.baseline = null;
+    invariant.value = null;
+    invariant.drift = 0;
+    invariant.maxDrift = 0;
+    invariant.violatedAt = null;
+  };
+
+  return {
+    /** Registers an invariant with a fresh baseline; returns the unregister function. */
+    register: (name: string, read: () => unknown, options: InvariantOptions = {}) => {
+      const invariant: Invariant = {
+        name,
+        unit: options.unit,
+        tolerance: options.tolerance ?? DEFAULT_INVARIANT_TOLERANCE,
+        scale: options.scale ?? DEFAULT_SCALE,
+        read: () => normalize(read()) as InvariantValue,
+        failed: false,
+        value: null,
+        baseline: null,
+        drift: 0,
+        maxDrift: 0,
+        violatedAt: null,
+      };
+      invariants.set(name, invariant);
+      emit();
+      return () => {
+        if (invariants.get(name) !== invariant) return;
+        invariants.delete(name);
+        emit();
+      };
+    },
+
+    /** Called by the host after each simulation step. */
+    check: (time: number) => {
+      if (invariants.size === 0) return;
+      if (time < lastCheck) {
+        invariants.forEach(rebaseline);
+        lastCheck = -Infinity;
+      }
+      if (time - lastCheck < INVARIANT_CHECK_INTERVAL - 1e-9) return;
+      lastCheck = time;
+
+      invariants.forEach(invariant => {
+        let value: InvariantValue | null;
+        try {
+          value = invariant.read();
+        } catch (err) {
+          if (!invariant.failed) console.warn(`Invariant "${invariant.name}" could not be read`, err);
+          invariant.failed = true;
+          return;
+        }
+        if (value === null) return;
+        invariant.value = value;
+        if (invariant.baseline === null) {
+          invariant.baseline = value;
+          return;
+        }
+        invariant.drift = difference(value, invariant.baseline) / Math.max(magnitude(invariant.baseline), invariant.scale);
+        invariant.maxDrift = Math.max(invariant.maxDrift, invariant.drift);
+        if (invariant.violatedAt === null && invariant.drift > invariant.tolerance) {
+          invariant.violatedAt = time;
+          console.warn(
+            `Invariant "${invariant.name}" drifted ${formatDrift(invariant.drift)} by t = ${time.toFixed(2)} s ` +
+            `(tolerance ${formatDrift(invariant.tolerance)}). Check the integrator, or damping/driving that is not accounted for.`
+          );
+          emit();
+        }
+      });
+    },
+
+    /** Drift of one invariant at the last check, for plotting; 0 before the baseline. */
+    drift: (name: string) => invariants.get(name)?.drift ?? 0,
+
+    statuses: (): InvariantStatus[] =>
+      [...invariants.values()].map(({ read, scale, failed, ...status }) => ({ ...status })),
+
+    /** Takes every baseline again (new run). */
+    reset: () => {
+      invariants.forEach(rebaseline);
+      lastCheck = -Infinity;
+      emit();
+    },
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export type InvariantChecker = ReturnType<typeof createInvariantChecker>;
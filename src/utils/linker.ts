@@ -0,0 +1,52 @@
+// ============================================================================
+// PACKAGE LINKER
+// A simulation package is the main componentCode plus named helper files
+// (physics solvers, sub-components, shaders). The main component sits at its
+// entry path (the package root unless the package names a nested entry such as
+// 'src/main.tsx'); helpers are imported with relative specifiers ('./physics').
+// ============================================================================
+
+export type PackageFiles = Record<string, string>;
+
+const CODE_FILE = /\.(tsx?|jsx?)$/i;
+const TEXT_ASSET = /\.(glsl|vert|frag|wgsl|txt|md)$/i;
+const JSON_ASSET = /\.json$/i;
+
+const RESOLVE_SUFFIXES = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js'];
+
+export const isRelativeSpecifier = (specifier: string) => specifier.startsWith('./') || specifier.startsWith('../');
+
+export const isCodeFile = (path: string) => CODE_FILE.test(path);
+
+export const isAssetFile = (path: string) => TEXT_ASSET.test(path) || JSON_ASSET.test(path);
+
+export const dirname = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+const normalize = (path: string) => {
+  const parts: string[] = [];
+  path.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+/**
+ * Resolves a relative specifier from `fromFile` (the main component's entry path,
+ * or undefined when it sits at the root) to a file path in the package, or null.
+ */
+export const resolvePackagePath = (files: PackageFiles, fromFile: string | undefined, specifier: string): string | null => {
+  if (!isRelativeSpecifier(specifier)) return null;
+  const base = normalize(`${dirname(fromFile || '')}/${specifier}`);
+  const match = RESOLVE_SUFFIXES.map(suffix => base + suffix).find(candidate => candidate in files);
+  if (!match || !(isCodeFile(match) || isAssetFile(match))) return null;
+  return match;
+};
+
+/**
+ * Non-code files are exposed as a default export: text for shaders, parsed data for JSON.
+ */
+export const assetModule = (path: string, content: string) => {
+  const value = JSON_ASSET.test(path) ? JSON.parse(content) : content;
+  return { default: value };
+};
@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import { Measurement } from '../types';
+
+// ============================================================================
+// MEASUREMENTS
+// State of the in-scene measuring tools. The ruler takes two picked points,
+// the protractor three (the angle is measured at the second); each completed
+// pick sequence becomes a measurement that stays in the scene until removed.
+// The stopwatch reads the simulation clock, so it stops with the physics.
+// ============================================================================
+
+export type MeasureTool = 'ruler' | 'protractor';
+
+type Point = [number, number, number];
+
+const POINTS_NEEDED: Record<MeasureTool, number> = { ruler: 2, protractor: 3 };
+
+const toVector = (point: Point) => new THREE.Vector3(...point);
+
+export const measureDistance = (a: Point, b: Point) => toVector(a).distanceTo(toVector(b));
+
+/** Angle at `vertex` between the rays to `a` and `b`, in degrees. */
+export const measureAngle = (a: Point, vertex: Point, b: Point) => {
+  const center = toVector(vertex);
+  const u = toVector(a).sub(center);
+  const v = toVector(b).sub(center);
+  if (u.lengthSq() === 0 || v.lengthSq() === 0) return 0;
+  return THREE.MathUtils.radToDeg(u.angleTo(v));
+};
+
+export const formatMeasurement = (measurement: Measurement) => {
+  switch (measurement.kind) {
+    case 'distance': return `${measureDistance(...measurement.points).toFixed(2)} m`;
+    case 'angle': return `${measureAngle(...measurement.points).toFixed(1)}°`;
+    case 'interval': return `Δt ${(measurement.end - measurement.start).toFixed(2)} s`;
+  }
+};
+
+export const createMeasurements = () => {
+  let tool: MeasureTool | null = null;
+  let pending: Point[] = [];
+  let items: Measurement[] = [];
+  let stopwatchStart: number | null = null;
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  return {
+    get tool() { return tool; },
+    /** Points picked so far for the active tool. */
+    get pending(): readonly Point[] { return pending; },
+    get items(): readonly Measurement[] { return items; },
+    /** Simulated time the running stopwatch was started at; null when stopped. */
+    get stopwatchStart() { return stopwatchStart; },
+
+    /** Selecting the active tool again turns it off. */
+    toggleTool: (next: MeasureTool) => {
+      tool = tool === next ? null : next;
+      pending = [];
+      emit();
+    },
+
+    pick: (point: THREE.Vector3) => {
+      if (!tool) return;
+      pending = [...pending, [point.x, point.y, point.z]];
+      if (pending.length === POINTS_NEEDED[tool]) {
+        items = [...items, tool === 'ruler'
+          ? { kind: 'distance', points: [pending[0], pending[1]] }
+          : { kind: 'angle', points: [pending[0], pending[1], pending[2]] }];
+        pending = [];
+      }
+      emit();
+    },
+
+    /** Drops a half-finished pick sequence and leaves the tool. */
+    cancel: () => {
+      tool = null;
+      pending = [];
+      emit();
+    },
+
+    toggleStopwatch: (time: number) => {
+      if (stopwatchStart === null) {
+        stopwatchStart = time;
+      } else {
+        // A rewind can move the clock before the start; the interval is still the span between them
+        items = [...items, { kind: 'interval', start: Math.min(stopwatchStart, time), end: Math.max(stopwatchStart, time) }];
+        stopwatchStart = null;
+      }
+      emit();
+    },
+
+    remove: (index: number) => {
+      items = items.filter((_, i) => i !== index);
+      emit();
+    },
+
+    clear: () => {
+      pending = [];
+      items = [];
+      stopwatchStart = null;
+      emit();
+    },
+
+    /** Replaces the measurements, e.g. with those of a resumed saved state. */
+    load: (measurements: Measurement[]) => {
+      pending = [];
+      items = measurements.slice();
+      stopwatchStart = null;
+      emit();
+    },
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export type Measurements = ReturnType<typeof createMeasurements>;
@@ -0,0 +1,147 @@
+import React from 'react';
+import * as THREE from 'three';
+import * as Fiber from '@react-three/fiber';
+import * as Drei from '@react-three/drei';
+import * as Leva from 'leva';
+import * as Matter from 'matter-js';
+import { CodeDiagnostic } from '../types';
+
+// ============================================================================
+// MODULE REGISTRY
+// Simulation code may only import from an allow-list of specifiers. Import
+// statements are rewritten in place (line count preserved) into lookups on
+// `__require`, which resolves against the registry at evaluation time.
+// The registry itself is assembled from scope plugins (see scope.ts).
+// ============================================================================
+
+export type ModuleNamespace = Record<string, any>;
+export type ModuleRegistry = Record<string, ModuleNamespace>;
+
+// Ensure we have the correct Matter object
+const safeMatter = (Matter as any).default || Matter;
+
+export const BASE_MODULES: ModuleRegistry = {
+  'react': { ...React, default: React },
+  'three': THREE,
+  '@react-three/fiber': Fiber,
+  '@react-three/drei': Drei,
+  'leva': Leva,
+  'matter-js': { ...safeMatter, default: safeMatter },
+};
+
+/**
+ * Creates the `__require` function injected into the compiled scope.
+ */
+export const createRequire = (registry: ModuleRegistry) => (specifier: string) => {
+  const namespace = registry[specifier];
+  if (!namespace) throw new Error(`Cannot find module '${specifier}'`);
+  return namespace;
+};
+
+// --- Import rewriting ---
+
+// The clause only ever contains identifiers, braces, commas, `*`, `as` and `type`
+const IMPORT_FROM = /^[ \t]*import\s+(type\s+)?([\w$\s{},*]+?)\s+from\s+(['"])([^'"\n]+)\3[ \t]*;?/gm;
+const IMPORT_SIDE_EFFECT = /^[ \t]*import\s+(['"])([^'"\n]+)\1[ \t]*;?/gm;
+
+const newlinesIn = (text: string) => text.replace(/[^\n]/g, '');
+
+const positionOf = (code: string, index: number) => {
+  const before = code.slice(0, index);
+  const line = before.split('\n').length;
+  return { line, column: index - (before.lastIndexOf('\n') + 1) };
+};
+
+// Turns `Foo, * as NS, { a, b as c, type D }` into declarations against `source`
+const bindingsFor = (clause: string, source: string): string[] => {
+  const declarations: string[] = [];
+  let rest = clause.trim();
+
+  const named = rest.match(/\{([\s\S]*)\}/);
+  if (named) {
+    const parts = named[1]
+      .split(',')
+      .map(part => part.trim())
+      .filter(part => part && !part.startsWith('type '))
+      .map(part => {
+        const [imported, local] = part.split(/\s+as\s+/);
+        return local && local !== imported ? `${imported}: ${local}` : imported;
+      });
+    if (parts.length > 0) declarations.push(`const { ${parts.join(', ')} } = ${source};`);
+    rest = rest.replace(named[0], '');
+  }
+
+  rest.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const namespace = part.match(/^\*\s+as\s+([\w$]+)$/);
+    if (namespace) declarations.push(`const ${namespace[1]} = ${source};`);
+    else declarations.push(`const ${part} = ('default' in ${source} ? ${source}.default : ${source});`);
+  });
+
+  return declarations;
+};
+
+/**
+ * Rewrites import statements into registry lookups. Unknown specifiers are
+ * reported as diagnostics instead of being dropped.
+ */
+export const rewriteImports = (code: string, isKnown: (specifier: string) => boolean) => {
+  const diagnostics: CodeDiagnostic[] = [];
+  let counter = 0;
+
+  // Both passes preserve line structure, so positions in either string match the original lines
+  const check = (source: string, match: string, offset: number, specifier: string) => {
+    if (isKnown(specifier)) return true;
+    const { line, column } = positionOf(source, offset + match.indexOf(specifier) - 1);
+    diagnostics.push({
+      rule: 'unknown-module',
+      severity: 'error',
+      message: `Cannot import '${specifier}': not an available module`,
+      line,
+      column,
+    });
+    return false;
+  };
+
+  let rewritten = code.replace(IMPORT_FROM, (match, typeOnly, clause, _quote, specifier, offset) => {
+    if (typeOnly) return newlinesIn(match);
+    if (!check(code, match, offset, specifier)) return newlinesIn(match);
+    const local = `__module${counter++}`;
+    const lookup = [`const ${local} = __require(${JSON.stringify(specifier)});`, ...bindingsFor(clause, local)];
+    return lookup.join(' ') + newlinesIn(match);
+  });
+
+  const firstPass = rewritten;
+  rewritten = rewritten.replace(IMPORT_SIDE_EFFECT, (match, _quote, specifier, offset) => {
+    check(firstPass, match, offset, specifier);
+    return newlinesIn(match);
+  });
+
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { code: rewritten, diagnostics };
+};
+
+export interface HoistedImport {
+  text: string;   // the statement on a single line
+  line: number;   // where it stood in the original code
+  column: number;
+}
+
+/**
+ * Lifts import statements out of the code (blanked, lines preserved) so they
+ * can be placed at module level, e.g. above the Strategy B wrapper for type-checking.
+ */
+export const hoistImports = (code: string) => {
+  const imports: HoistedImport[] = [];
+  const lift = (source: string, match: string, offset: number) => {
+    const start = offset + (match.length - match.trimStart().length);
+    const text = match.trim().replace(/\s+/g, ' ');
+    imports.push({ text: text.endsWith(';') ? text : `${text};`, ...positionOf(source, start) });
+    return newlinesIn(match);
+  };
+
+  const firstPass = code.replace(IMPORT_FROM, (match, ...args) => lift(code, match, args[args.length - 2]));
+  const hoisted = firstPass.replace(IMPORT_SIDE_EFFECT, (match, ...args) => lift(firstPass, match, args[args.length - 2]));
+
+  imports.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { code: hoisted, imports };
+};
@@ -0,0 +1,205 @@
+import { CodeDiagnostic } from '../types';
+
+// ============================================================================
+// STATIC SAFETY POLICY
+// A Babel visitor that runs during transpilation and reports forbidden
+// constructs in simulation code before it is ever evaluated.
+// ============================================================================
+
+export type PolicyRule =
+  | 'no-eval'
+  | 'no-function-constructor'
+  | 'no-network'
+  | 'no-cookie'
+  | 'no-storage'
+  | 'no-location'
+  | 'no-dynamic-import'
+  | 'no-infinite-loop';
+
+export type PolicySeverity = 'off' | 'warn' | 'error';
+
+export interface CompilerPolicy {
+  name: string;
+  rules: Record<PolicyRule, PolicySeverity>;
+}
+
+// Local development: block code execution primitives, only warn about the rest
+export const DEVELOPMENT_POLICY: CompilerPolicy = {
+  name: 'development',
+  rules: {
+    'no-eval': 'error',
+    'no-function-constructor': 'error',
+    'no-network': 'warn',
+    'no-cookie': 'warn',
+    'no-storage': 'warn',
+    'no-location': 'warn',
+    'no-dynamic-import': 'error',
+    'no-infinite-loop': 'warn',
+  },
+};
+
+// Teacher deployments: everything is a hard error
+export const CLASSROOM_POLICY: CompilerPolicy = {
+  name: 'classroom',
+  rules: {
+    'no-eval': 'error',
+    'no-function-constructor': 'error',
+    'no-network': 'error',
+    'no-cookie': 'error',
+    'no-storage': 'error',
+    'no-location': 'error',
+    'no-dynamic-import': 'error',
+    'no-infinite-loop': 'error',
+  },
+};
+
+export const POLICY_PRESETS: Record<string, CompilerPolicy> = {
+  development: DEVELOPMENT_POLICY,
+  classroom: CLASSROOM_POLICY,
+};
+
+/**
+ * Builds a policy from a preset name plus optional per-rule overrides.
+ */
+export const definePolicy = (
+  base: keyof typeof POLICY_PRESETS | CompilerPolicy,
+  overrides: Partial<Record<PolicyRule, PolicySeverity>> = {}
+): CompilerPolicy => {
+  const preset = typeof base === 'string' ? (POLICY_PRESETS[base] || DEVELOPMENT_POLICY) : base;
+  return { name: preset.name, rules: { ...preset.rules, ...overrides } };
+};
+
+// Deployment default, chosen at build time via VITE_SIM_POLICY
+export const ACTIVE_POLICY: CompilerPolicy = definePolicy(import.meta.env.VITE_SIM_POLICY || 'development');
+
+// --- Forbidden names ---
+const NETWORK_GLOBALS = new Set(['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource']);
+const STORAGE_GLOBALS = new Set(['localStorage', 'sessionStorage', 'indexedDB']);
+const GLOBAL_OBJECTS = new Set(['window', 'globalThis', 'self', 'top', 'parent']);
+
+// TS nodes that wrap a runtime expression (everything else starting with TS is a type position)
+const TS_EXPRESSION_WRAPPERS = new Set([
+  'TSAsExpression', 'TSSatisfiesExpression', 'TSNonNullExpression', 'TSTypeAssertion', 'TSInstantiationExpression',
+]);
+
+const MESSAGES: Record<PolicyRule, (name: string) => string> = {
+  'no-eval': () => '`eval` is not allowed in simulation code',
+  'no-function-constructor': () => 'The `Function` constructor is not allowed in simulation code',
+  'no-network': (name) => `Network access via \`${name}\` is not allowed`,
+  'no-cookie': () => 'Access to `document.cookie` is not allowed',
+  'no-storage': (name) => `Browser storage (\`${name}\`) is not allowed`,
+  'no-location': () => 'Reading or changing the page location is not allowed',
+  'no-dynamic-import': () => 'Dynamic `import()` is not allowed',
+  'no-infinite-loop': () => 'Unbounded loop: add a break, return or exit condition',
+};
+
+// Static property name of a member expression (`a.b` or `a['b']`)
+const propertyName = (node: any): string | null => {
+  if (!node.computed && node.property.type === 'Identifier') return node.property.name;
+  if (node.computed && node.property.type === 'StringLiteral') return node.property.value;
+  return null;
+};
+
+const isTypePosition = (path: any): boolean => {
+  return !!path.findParent((p: any) => p.node.type.startsWith('TS') && !TS_EXPRESSION_WRAPPERS.has(p.node.type));
+};
+
+const isConstantTrue = (node: any): boolean => {
+  if (!node) return true; // for(;;)
+  if (node.type === 'BooleanLiteral') return node.value === true;
+  if (node.type === 'NumericLiteral') return node.value !== 0;
+  return false;
+};
+
+// True when the loop body has a way out: break (for this loop), return or throw
+const loopHasExit = (loopPath: any): boolean => {
+  let found = false;
+  const label = loopPath.parentPath?.isLabeledStatement() ? loopPath.parent.label.name : null;
+  let nested = 0;
+
+  loopPath.get('body').traverse({
+    Function(p: any) { p.skip(); },
+    Loop: {
+      enter() { nested++; },
+      exit() { nested--; },
+    },
+    SwitchStatement: {
+      enter() { nested++; },
+      exit() { nested--; },
+    },
+    BreakStatement(p: any) {
+      const target = p.node.label?.name;
+      if ((target && target === label) || (!target && nested === 0)) found = true;
+    },
+    ReturnStatement() { found = true; },
+    ThrowStatement() { found = true; },
+  });
+  return found;
+};
+
+/**
+ * Creates a Babel plugin that appends policy findings to `diagnostics`.
+ * Locations are relative to the transformed source; the caller maps them back.
+ */
+export const createPolicyPlugin = (policy: CompilerPolicy, diagnostics: CodeDiagnostic[]) => () => {
+  const report = (rule: PolicyRule, node: any, name = '') => {
+    const severity = policy.rules[rule];
+    if (severity === 'off') return;
+    diagnostics.push({
+      rule,
+      severity: severity === 'error' ? 'error' : 'warning',
+      message: MESSAGES[rule](name),
+      line: node.loc?.start.line ?? 0,
+      column: node.loc?.start.column ?? 0,
+    });
+  };
+
+  const checkGlobalName = (name: string, node: any) => {
+    if (name === 'eval') report('no-eval', node);
+    else if (name === 'Function') report('no-function-constructor', node);
+    else if (NETWORK_GLOBALS.has(name)) report('no-network', node, name);
+    else if (STORAGE_GLOBALS.has(name)) report('no-storage', node, name);
+    else if (name === 'location') report('no-location', node);
+  };
+
+  const checkLoop = (path: any) => {
+    if (isConstantTrue(path.node.test) && !loopHasExit(path)) report('no-infinite-loop', path.node);
+  };
+
+  return {
+    visitor: {
+      // Bare globals: fetch(...), new Function(...), localStorage, location ...
+      ReferencedIdentifier(path: any) {
+        const name = path.node.name;
+        if (path.scope.hasBinding(name, true)) return;
+        if (path.parentPath.isMemberExpression({ object: path.node }) && GLOBAL_OBJECTS.has(name)) return;
+        if (isTypePosition(path)) return;
+        checkGlobalName(name, path.node);
+      },
+
+      // Property access: window.fetch, document.cookie, window.location ...
+      MemberExpression(path: any) {
+        const { object } = path.node;
+        const prop = propertyName(path.node);
+        if (!prop || object.type !== 'Identifier' || path.scope.hasBinding(object.name, true)) return;
+
+        if (GLOBAL_OBJECTS.has(object.name)) checkGlobalName(prop, path.node);
+        else if (object.name === 'document' && prop === 'cookie') report('no-cookie', path.node);
+        else if (object.name === 'document' && prop === 'location') report('no-location', path.node);
+        else if (object.name === 'navigator' && prop === 'sendBeacon') report('no-network', path.node, 'navigator.sendBeacon');
+      },
+
+      // import('...') (Babel 7 represents the callee as an `Import` node)
+      CallExpression(path: any) {
+        if (path.node.callee.type === 'Import') report('no-dynamic-import', path.node);
+      },
+      ImportExpression(path: any) {
+        report('no-dynamic-import', path.node);
+      },
+
+      WhileStatement: checkLoop,
+      DoWhileStatement: checkLoop,
+      ForStatement: checkLoop,
+    },
+  };
+};
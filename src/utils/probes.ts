@@ -0,0 +1,135 @@
+// ============================================================================
+// PROBES
+// Sims publish scalar telemetry with `useProbe(name, value, { unit })`. The
+// value may be a number (read when sampled) or a getter, so quantities kept in
+// refs and updated in useFrame can be probed too. The host samples every probe
+// at a fixed interval of simulated time after the sim has stepped, so series
+// stop when the clock stops. Stepping back in time (a timeline branch) drops
+// the samples from the abandoned future.
+// ============================================================================
+
+export const PROBE_SAMPLE_INTERVAL = 1 / 30; // seconds of simulated time between samples
+export const PROBE_CAPACITY = 900;           // 30 s of history per probe
+
+export interface ProbeSeries {
+  name: string;
+  unit?: string;
+  /** Probe this series is the theoretical curve for (see analytics.ts). */
+  reference?: string;
+  times: number[];
+  values: number[];
+}
+
+interface Probe {
+  read: () => number;
+  unit?: string;
+  reference?: string;
+  times: number[];
+  values: number[];
+  failed: boolean;
+}
+
+export const createProbes = () => {
+  const probes = new Map<string, Probe>();
+  const listeners = new Set<() => void>();
+  const sampleListeners = new Set<(time: number, values: Record<string, number>) => void>();
+  let lastSample = -Infinity;
+  let version = 0;
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  const truncateAfter = (time: number) => {
+    probes.forEach(probe => {
+      let keep = probe.times.length;
+      while (keep > 0 && probe.times[keep - 1] > time) keep--;
+      probe.times.length = keep;
+      probe.values.length = keep;
+    });
+  };
+
+  return {
+    /** Registers (or re-registers) a probe; returns the unregister function. */
+    register: (name: string, read: () => number, unit?: string, reference?: string) => {
+      const existing = probes.get(name);
+      const probe: Probe = { read, unit, reference, times: existing?.times ?? [], values: existing?.values ?? [], failed: false };
+      probes.set(name, probe);
+      emit();
+      return () => {
+        if (probes.get(name) !== probe) return;
+        probes.delete(name);
+        emit();
+      };
+    },
+
+    /** Called by the host after each simulation step. */
+    sample: (time: number) => {
+      if (probes.size === 0) return;
+      if (time < lastSample) {
+        truncateAfter(time);
+        lastSample = -Infinity;
+      }
+      if (time - lastSample < PROBE_SAMPLE_INTERVAL - 1e-9) return;
+      lastSample = time;
+      const values: Record<string, number> = {};
+      probes.forEach((probe, name) => {
+        let value: number;
+        try {
+          value = Number(probe.read());
+        } catch (err) {
+          if (!probe.failed) console.warn(`Probe "${name}" could not be read`, err);
+          probe.failed = true;
+          return;
+        }
+        if (!Number.isFinite(value)) return;
+        values[name] = value;
+        probe.times.push(time);
+        probe.values.push(value);
+        if (probe.times.length > PROBE_CAPACITY) {
+          probe.times.shift();
+          probe.values.shift();
+        }
+      });
+      version++;
+      sampleListeners.forEach(listener => listener(time, values));
+    },
+
+    /** Bumped on every sample; lets the plot skip redraws while nothing changes. */
+    get version() { return version; },
+
+    names: () => [...probes.keys()],
+    unitOf: (name: string) => probes.get(name)?.unit,
+
+    /** Reads a probe now, outside the sampling schedule; undefined if there is none. */
+    value: (name: string) => {
+      const probe = probes.get(name);
+      return probe ? Number(probe.read()) : undefined;
+    },
+
+    /** Copies of the recorded samples, in registration order. */
+    series: (): ProbeSeries[] =>
+      [...probes.entries()].map(([name, probe]) => ({ name, unit: probe.unit, reference: probe.reference, times: probe.times.slice(), values: probe.values.slice() })),
+
+    /** Forgets the samples (new run); registrations stay. */
+    reset: () => {
+      probes.forEach(probe => {
+        probe.times = [];
+        probe.values = [];
+      });
+      lastSample = -Infinity;
+      version++;
+    },
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    /** Called with every sample row as it is taken. */
+    onSample: (listener: (time: number, values: Record<string, number>) => void) => {
+      sampleListeners.add(listener);
+      return () => { sampleListeners.delete(listener); };
+    },
+  };
+};
+
+export type Probes = ReturnType<typeof createProbes>;
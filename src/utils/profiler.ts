@@ -0,0 +1,178 @@
+import * as THREE from 'three';
+
+// ============================================================================
+// PROFILER
+// Per-frame measurements for the performance HUD. The frame loop reports how
+// long each sim useFrame callback ran; once the frame has been rendered the
+// host closes it with the renderer's counters. The last few seconds are kept
+// for the graph, and running totals (with a frame-time histogram for the
+// percentiles) back the exportable summary of the whole run.
+// ============================================================================
+
+export const PROFILE_HISTORY = 180;   // frames shown in the graph (~3 s at 60 fps)
+const HISTOGRAM_BUCKET_MS = 0.5;
+const HISTOGRAM_BUCKETS = 400;        // frame times above 200 ms share the last bucket
+const MAX_FRAME_GAP_MS = 1000;        // longer gaps are a hidden tab, not a slow frame
+
+export interface PerfSample {
+  frameMs: number;
+  simMs: number;
+  drawCalls: number;
+  triangles: number;
+  geometries: number;
+  textures: number;
+  /** Chromium only. */
+  heapBytes: number | null;
+}
+
+export interface CallbackProfile {
+  /** Registration site of the callback, e.g. "line 12". */
+  location: string;
+  totalMs: number;
+  meanMs: number;
+  maxMs: number;
+}
+
+export interface ProfileSummary {
+  format: 'physigen-profile';
+  simulation: string;
+  recordedAt: string;
+  frames: number;
+  seconds: number;
+  fps: number;
+  frameMs: { mean: number; p50: number; p95: number; p99: number; max: number };
+  simMs: { mean: number; max: number };
+  peak: { drawCalls: number; triangles: number; geometries: number; textures: number; heapBytes: number | null };
+  callbacks: CallbackProfile[];
+}
+
+const readHeap = () => (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory?.usedJSHeapSize ?? null;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const createProfiler = () => {
+  let history: PerfSample[] = [];
+  let lastFrameAt: number | null = null;
+  let frameSimMs = 0;
+  let frames = 0;
+  let totalFrameMs = 0;
+  let maxFrameMs = 0;
+  let totalSimMs = 0;
+  let maxSimMs = 0;
+  let histogram = new Uint32Array(HISTOGRAM_BUCKETS);
+  let peak: ProfileSummary['peak'] = { drawCalls: 0, triangles: 0, geometries: 0, textures: 0, heapBytes: null };
+  // Keyed by the registration stack of the callback
+  let callbacks = new Map<string, { totalMs: number; maxMs: number }>();
+  const frameCallbacks = new Map<string, number>();
+
+  const percentile = (p: number) => {
+    if (frames === 0) return 0;
+    const wanted = Math.ceil(frames * p);
+    let seen = 0;
+    for (let i = 0; i < HISTOGRAM_BUCKETS; i++) {
+      seen += histogram[i];
+      if (seen >= wanted) return (i + 1) * HISTOGRAM_BUCKET_MS;
+    }
+    return maxFrameMs;
+  };
+
+  return {
+    /** Time one sim callback spent in the current frame, across all substeps. */
+    recordCallback: (site: string, ms: number) => {
+      frameSimMs += ms;
+      frameCallbacks.set(site, (frameCallbacks.get(site) ?? 0) + ms);
+    },
+
+    /** Closes the frame once it has been rendered; the renderer's info is read, not reset. */
+    endFrame: (info: THREE.WebGLInfo) => {
+      const now = performance.now();
+      const gap = lastFrameAt === null ? null : now - lastFrameAt;
+      lastFrameAt = now;
+      const simMs = frameSimMs;
+      frameSimMs = 0;
+
+      if (gap === null || gap > MAX_FRAME_GAP_MS) {
+        frameCallbacks.clear();
+        return;
+      }
+
+      const sample: PerfSample = {
+        frameMs: gap,
+        simMs,
+        drawCalls: info.render.calls,
+        triangles: info.render.triangles,
+        geometries: info.memory.geometries,
+        textures: info.memory.textures,
+        heapBytes: readHeap(),
+      };
+      history.push(sample);
+      if (history.length > PROFILE_HISTORY) history.shift();
+
+      frames++;
+      totalFrameMs += gap;
+      maxFrameMs = Math.max(maxFrameMs, gap);
+      totalSimMs += simMs;
+      maxSimMs = Math.max(maxSimMs, simMs);
+      histogram[Math.min(HISTOGRAM_BUCKETS - 1, Math.floor(gap / HISTOGRAM_BUCKET_MS))]++;
+      peak = {
+        drawCalls: Math.max(peak.drawCalls, sample.drawCalls),
+        triangles: Math.max(peak.triangles, sample.triangles),
+        geometries: Math.max(peak.geometries, sample.geometries),
+        textures: Math.max(peak.textures, sample.textures),
+        heapBytes: sample.heapBytes === null ? peak.heapBytes : Math.max(peak.heapBytes ?? 0, sample.heapBytes),
+      };
+      frameCallbacks.forEach((ms, site) => {
+        const entry = callbacks.get(site) ?? { totalMs: 0, maxMs: 0 };
+        entry.totalMs += ms;
+        entry.maxMs = Math.max(entry.maxMs, ms);
+        callbacks.set(site, entry);
+      });
+      frameCallbacks.clear();
+    },
+
+    /** Oldest first. */
+    history: (): readonly PerfSample[] => history,
+    latest: (): PerfSample | null => history[history.length - 1] ?? null,
+    get frames() { return frames; },
+
+    /** Whole-run summary; `locate` turns a callback's registration stack into a readable location. */
+    summary: (simulation: string, locate: (site: string) => string): ProfileSummary => ({
+      format: 'physigen-profile',
+      simulation,
+      recordedAt: new Date().toISOString(),
+      frames,
+      seconds: round(totalFrameMs / 1000),
+      fps: frames > 0 ? round(1000 / (totalFrameMs / frames)) : 0,
+      frameMs: {
+        mean: frames > 0 ? round(totalFrameMs / frames) : 0,
+        p50: percentile(0.5),
+        p95: percentile(0.95),
+        p99: percentile(0.99),
+        max: round(maxFrameMs),
+      },
+      simMs: { mean: frames > 0 ? round(totalSimMs / frames) : 0, max: round(maxSimMs) },
+      peak,
+      callbacks: [...callbacks.entries()]
+        .map(([site, entry]) => ({
+          location: locate(site),
+          totalMs: round(entry.totalMs),
+          meanMs: frames > 0 ? round(entry.totalMs / frames) : 0,
+          maxMs: round(entry.maxMs),
+        }))
+        .sort((a, b) => b.totalMs - a.totalMs),
+    }),
+
+    reset: () => {
+      history = [];
+      lastFrameAt = null;
+      frameSimMs = 0;
+      frames = totalFrameMs = maxFrameMs = totalSimMs = maxSimMs = 0;
+      histogram = new Uint32Array(HISTOGRAM_BUCKETS);
+      peak = { drawCalls: 0, triangles: 0, geometries: 0, textures: 0, heapBytes: null };
+      callbacks = new Map();
+      frameCallbacks.clear();
+    },
+  };
+};
+
+export type Profiler = ReturnType<typeof createProfiler>;
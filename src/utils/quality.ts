@@ -0,0 +1,107 @@
+// ============================================================================
+// ADAPTIVE QUALITY
+// Watches frame time and steps the rendering quality down when the scene
+// cannot hold its frame rate (resolution first, then shadows, then the
+// environment map and the star field), and back up after a sustained stretch
+// of headroom. A level that immediately proved too slow after stepping up
+// becomes the ceiling, so the scene does not oscillate. Sims read the level
+// through `useQuality()` and may scale their own particle counts by `detail`.
+// ============================================================================
+
+export type QualityLevel = 'high' | 'medium' | 'low';
+export type QualityMode = 'auto' | QualityLevel;
+
+export interface QualitySettings {
+  dpr: number | [number, number];
+  shadows: boolean;
+  environment: boolean;
+  stars: number;
+  /** Suggested multiplier for a sim's particle/instance counts. */
+  detail: number;
+}
+
+export const QUALITY_SETTINGS: Record<QualityLevel, QualitySettings> = {
+  high: { dpr: [1, 2], shadows: true, environment: true, stars: 5000, detail: 1 },
+  medium: { dpr: 1, shadows: false, environment: true, stars: 1500, detail: 0.5 },
+  low: { dpr: 0.75, shadows: false, environment: false, stars: 0, detail: 0.25 },
+};
+
+// leva options (label -> mode)
+export const QUALITY_OPTIONS: Record<string, QualityMode> = { 'Auto': 'auto', 'High': 'high', 'Medium': 'medium', 'Low': 'low' };
+
+const LEVELS: QualityLevel[] = ['high', 'medium', 'low'];
+
+const WINDOW_FRAMES = 60;
+const DOWNGRADE_MS = 1000 / 40;   // mean frame time that costs a level
+const UPGRADE_MS = 1000 / 57;     // mean frame time that counts as headroom
+const UPGRADE_WINDOWS = 5;        // consecutive windows of headroom before stepping up
+const MAX_FRAME_GAP_MS = 250;     // hitches (tab switches, compiles) are not load
+
+export const createQualityGovernor = () => {
+  let mode: QualityMode = 'auto';
+  let index = 0;
+  let ceiling = 0;                // best level allowed in auto mode
+  let windowMs = 0;
+  let windowFrames = 0;
+  let headroomWindows = 0;
+  let justUpgraded = false;
+  const listeners = new Set<(level: QualityLevel) => void>();
+
+  const restartWindow = () => {
+    windowMs = 0;
+    windowFrames = 0;
+  };
+
+  const setIndex = (next: number) => {
+    if (next === index) return;
+    index = next;
+    restartWindow();
+    headroomWindows = 0;
+    listeners.forEach(listener => listener(LEVELS[index]));
+  };
+
+  return {
+    get level() { return LEVELS[index]; },
+    get mode() { return mode; },
+
+    /** Fixed level, or 'auto' to start again from the top. */
+    setMode: (next: QualityMode) => {
+      if (next === mode) return;
+      mode = next;
+      ceiling = 0;
+      justUpgraded = false;
+      setIndex(next === 'auto' ? 0 : LEVELS.indexOf(next));
+    },
+
+    /** Called once per rendered frame. */
+    sample: (frameMs: number) => {
+      if (mode !== 'auto' || frameMs > MAX_FRAME_GAP_MS) return;
+      windowMs += frameMs;
+      if (++windowFrames < WINDOW_FRAMES) return;
+
+      const mean = windowMs / windowFrames;
+      restartWindow();
+      if (mean > DOWNGRADE_MS && index < LEVELS.length - 1) {
+        if (justUpgraded) ceiling = index + 1;
+        justUpgraded = false;
+        setIndex(index + 1);
+      } else if (mean < UPGRADE_MS && index > ceiling) {
+        justUpgraded = false;
+        if (++headroomWindows >= UPGRADE_WINDOWS) {
+          setIndex(index - 1);
+          justUpgraded = true;
+        }
+      } else {
+        justUpgraded = false;
+        headroomWindows = 0;
+      }
+    },
+
+    subscribe: (listener: (level: QualityLevel) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export type QualityGovernor = ReturnType<typeof createQualityGovernor>;
@@ -0,0 +1,83 @@
+// ============================================================================
+// CANVAS RECORDER
+// Records the simulation canvas to WebM with MediaRecorder.
+//   real-time -> the canvas stream is sampled at the chosen rate while the sim
+//                runs normally; slow frames show up as stutter
+//   offline   -> the host advances the sim by exactly 1/fps per recorded frame.
+//                The recorder is paused while a frame is computed and resumed
+//                for exactly 1/fps of wall time around each captured frame, so
+//                the video plays smoothly at the right speed however long each
+//                frame took to produce.
+// ============================================================================
+
+export const RECORDING_FPS_OPTIONS: Record<string, number> = { '24 fps': 24, '30 fps': 30, '60 fps': 60 };
+
+const MIME_CANDIDATES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+const TIMESLICE_MS = 1000;
+
+export interface RecordingResult {
+  blob: Blob;
+  /** Seconds of video. */
+  duration: number;
+}
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype;
+
+const pickMimeType = () => MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+export const createCanvasRecorder = (canvas: HTMLCanvasElement, { fps, offline }: { fps: number; offline: boolean }) => {
+  const stream = canvas.captureStream(offline ? 0 : fps);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(stream, { mimeType: mimeType || undefined, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  const startedAt = performance.now();
+  let frames = 0;
+  let frameReady = offline;
+  let slotTimer: ReturnType<typeof setTimeout> | undefined;
+
+  recorder.ondataavailable = (event) => { if (event.data.size > 0) chunks.push(event.data); };
+  recorder.start(TIMESLICE_MS);
+  if (offline) recorder.pause();
+
+  const duration = () => (offline ? frames / fps : (performance.now() - startedAt) / 1000);
+
+  return {
+    offline,
+    fps,
+    get duration() { return duration(); },
+
+    /** Offline: true when the host may advance the sim by one recorded frame. */
+    get wantsFrame() { return frameReady; },
+
+    /** Offline: the host is producing the next frame (sim stepped by 1/fps). */
+    beginFrame: () => { frameReady = false; },
+
+    /** Offline: the frame has been rendered; it is held for exactly 1/fps of video. */
+    captureFrame: () => {
+      recorder.resume();
+      track.requestFrame();
+      frames++;
+      slotTimer = setTimeout(() => {
+        if (recorder.state === 'recording') recorder.pause();
+        frameReady = true;
+      }, 1000 / fps);
+    },
+
+    stop: (): Promise<RecordingResult> => new Promise((resolve) => {
+      clearTimeout(slotTimer);
+      frameReady = false;
+      const finish = () => {
+        track.stop();
+        resolve({ blob: new Blob(chunks, { type: mimeType || 'video/webm' }), duration: duration() });
+      };
+      if (recorder.state === 'inactive') return finish();
+      recorder.onstop = finish;
+      recorder.stop();
+    }),
+  };
+};
+
+export type CanvasRecorder = ReturnType<typeof createCanvasRecorder>;
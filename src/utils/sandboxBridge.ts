@@ -0,0 +1,36 @@
+// Message protocol between the host window and the sandboxed simulation iframe.
+// The iframe runs on an opaque origin (no `allow-same-origin`), so the only way
+// across is postMessage. Data props are structured-cloned; function props are
+// replaced by named proxies that post a `callback` message back to the host.
+
+export const SANDBOX_CHANNEL = 'physigen-sandbox';
+
+export const SANDBOX_URL = `${import.meta.env.BASE_URL}sandbox.html`;
+
+export type HostToSandboxMessage = {
+  channel: typeof SANDBOX_CHANNEL;
+  type: 'render';
+  props: Record<string, unknown>;
+  callbacks: string[];
+};
+
+export type SandboxToHostMessage =
+  | { channel: typeof SANDBOX_CHANNEL; type: 'ready' }
+  | { channel: typeof SANDBOX_CHANNEL; type: 'callback'; name: string; args: unknown[] };
+
+export const isBridgeMessage = (data: unknown): data is HostToSandboxMessage | SandboxToHostMessage => {
+  return typeof data === 'object' && data !== null && (data as { channel?: unknown }).channel === SANDBOX_CHANNEL;
+};
+
+/**
+ * Splits component props into cloneable data and the names of callback props.
+ */
+export const splitProps = (props: Record<string, unknown>) => {
+  const data: Record<string, unknown> = {};
+  const callbacks: string[] = [];
+  Object.entries(props).forEach(([name, value]) => {
+    if (typeof value === 'function') callbacks.push(name);
+    else if (value !== undefined) data[name] = value;
+  });
+  return { data, callbacks };
+};
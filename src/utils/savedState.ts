@@ -0,0 +1,72 @@
+import type * as THREE from 'three';
+import { levaStore } from 'leva';
+import { CameraPose } from '../types';
+
+// ============================================================================
+// SAVED STATE
+// Reads and writes the parts of a paused moment that live outside the sim:
+// leva control values and the orbit camera. The sim's own state goes through
+// the snapshot providers (snapshots.ts); the file format is in
+// services/savedStates.ts.
+// ============================================================================
+
+// Folder of host-owned controls (time, view, debug); never saved with a sim
+const HOST_CONTROLS_FOLDER = 'System';
+
+const isHostPath = (path: string) => path === HOST_CONTROLS_FOLDER || path.startsWith(`${HOST_CONTROLS_FOLDER}.`);
+
+/**
+ * Current value of every sim control, by leva path. Buttons and other inputs
+ * without a value are skipped.
+ */
+export const captureControlValues = (): Record<string, unknown> => {
+  const values: Record<string, unknown> = {};
+  Object.entries(levaStore.getData()).forEach(([path, input]) => {
+    if (isHostPath(path) || !('value' in input)) return;
+    try {
+      values[path] = structuredClone(input.value);
+    } catch {
+      // Non-cloneable values (images, functions from plugins) cannot be saved
+    }
+  });
+  return values;
+};
+
+/**
+ * Writes saved values back. Controls the sim no longer declares are ignored.
+ */
+export const applyControlValues = (values: Record<string, unknown>) => {
+  Object.entries(values).forEach(([path, value]) => {
+    if (isHostPath(path) || !levaStore.getInput(path)) return;
+    try {
+      levaStore.setValueAtPath(path, value, true);
+    } catch (err) {
+      console.warn(`Control "${path}" could not be restored`, err);
+    }
+  });
+};
+
+// Minimal shape of drei's OrbitControls used here
+export interface OrbitControlsLike {
+  object: THREE.Camera & { zoom: number; updateProjectionMatrix?: () => void };
+  target: THREE.Vector3;
+  update: () => void;
+}
+
+export const captureCameraPose = (controls: OrbitControlsLike | null): CameraPose | null => {
+  if (!controls) return null;
+  return {
+    position: controls.object.position.toArray() as CameraPose['position'],
+    target: controls.target.toArray() as CameraPose['target'],
+    zoom: controls.object.zoom,
+  };
+};
+
+export const applyCameraPose = (controls: OrbitControlsLike | null, pose: CameraPose | null) => {
+  if (!controls || !pose) return;
+  controls.object.position.fromArray(pose.position);
+  controls.target.fromArray(pose.target);
+  controls.object.zoom = pose.zoom;
+  controls.object.updateProjectionMatrix?.();
+  controls.update();
+};
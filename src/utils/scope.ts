@@ -0,0 +1,164 @@
+import React from 'react';
+import * as THREE from 'three';
+import * as Fiber from '@react-three/fiber';
+import * as Drei from '@react-three/drei';
+import * as Leva from 'leva';
+import { BASE_MODULES, ModuleRegistry } from './modules';
+
+// ============================================================================
+// SCOPE PLUGINS
+// Everything a simulation can see without importing it comes from plugins:
+//   scope    -> named values passed as parameters of the compiled function
+//   preamble -> `const { a, b } = source;` destructures run before the code
+//   modules  -> specifiers importable through the module registry
+//   hooks    -> wrappers applied to a name wherever it is exposed
+// The core plugin reproduces the historical scope; host modules add more.
+// ============================================================================
+
+export interface ScopePlugin {
+  name: string;
+  /** Values injected by name. Set an entry to `undefined` to withdraw it. */
+  scope?: Record<string, unknown>;
+  /** Destructures from a scope entry into top-level names. */
+  preamble?: { from: string; names: string[] }[];
+  /** Importable modules. Set a specifier to `undefined` to withdraw it. */
+  modules?: Record<string, ModuleRegistry[string] | undefined>;
+  /** Wrappers receiving the current implementation of a name and returning its replacement. */
+  hooks?: Record<string, (current: any) => any>;
+}
+
+export interface ResolvedScope {
+  names: string[];
+  values: unknown[];
+  preamble: string;
+  /** Top-level names created by the preamble, mapped to the entry they are read from. */
+  destructured: Record<string, string>;
+  modules: ModuleRegistry;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export const CORE_SCOPE_PLUGIN: ScopePlugin = {
+  name: 'core',
+  scope: {
+    React,
+    THREE,
+    three: THREE,
+    useFrame: Fiber.useFrame,
+    useThree: Fiber.useThree,
+    useLoader: Fiber.useLoader,
+    drei: Drei,
+    drive: Drei,
+    leva: Leva,
+    ReactThreeFiber: Fiber,
+    Matter: BASE_MODULES['matter-js'].default,
+    // Snapshot registration for rewind; a no-op unless the host replaces it (DynamicScene does)
+    useSnapshot: (_key: string, _capture: () => unknown, _restore: (state: any) => void) => {},
+    // Camera hooks (follow targets, preferred starting view); also replaced by the host
+    useCameraTarget: (_name: string, _target: { current: unknown } | (() => unknown)) => {},
+    useInitialCamera: (_camera: { position: number[]; target?: number[]; fov?: number }) => {},
+    // Rendering quality chosen by the host; sims may scale particle counts by `detail`
+    useQuality: () => ({ level: 'high' as 'high' | 'medium' | 'low', detail: 1 }),
+    // Telemetry for the host's plot panel
+    useProbe: (_name: string, _value: number | (() => number), _options?: { unit?: string }) => {},
+    useInvariant: (_name: string, _read: () => unknown, _options?: { tolerance?: number; unit?: string; scale?: number }, _deps?: unknown[]) => {},
+    useAnalytic: (_name: string, _solution: (t: number) => unknown, _options?: { actual?: () => unknown; unit?: string; color?: string; duration?: number }, _deps?: unknown[]) => {},
+  },
+  preamble: [
+    // React Hooks
+    { from: 'React', names: ['useState', 'useEffect', 'useRef', 'useMemo', 'useCallback', 'useLayoutEffect', 'useReducer'] },
+    // Leva Hooks
+    { from: 'leva', names: ['useControls', 'button', 'folder', 'monitor'] },
+    // Common Drei Components
+    {
+      from: 'drei',
+      names: [
+        'Html', 'Text', 'Text3D', 'Float', 'Center',
+        'OrbitControls', 'Environment', 'ContactShadows',
+        'PerspectiveCamera', 'OrthographicCamera', 'Grid',
+      ],
+    },
+  ],
+  modules: BASE_MODULES,
+};
+
+const validateIdentifiers = (plugin: ScopePlugin) => {
+  const names = [
+    ...Object.keys(plugin.scope || {}),
+    ...(plugin.preamble || []).flatMap(entry => [entry.from, ...entry.names]),
+  ];
+  const invalid = names.find(name => !IDENTIFIER.test(name));
+  if (invalid) throw new Error(`Scope plugin "${plugin.name}": "${invalid}" is not a valid identifier`);
+};
+
+const registeredPlugins: ScopePlugin[] = [];
+
+/**
+ * Registers a plugin for every subsequent compilation. Returns an unregister function.
+ */
+export const registerScopePlugin = (plugin: ScopePlugin) => {
+  validateIdentifiers(plugin);
+  const existing = registeredPlugins.findIndex(p => p.name === plugin.name);
+  if (existing >= 0) registeredPlugins.splice(existing, 1, plugin);
+  else registeredPlugins.push(plugin);
+
+  return () => {
+    const index = registeredPlugins.indexOf(plugin);
+    if (index >= 0) registeredPlugins.splice(index, 1);
+  };
+};
+
+export const getScopePlugins = (): ScopePlugin[] => [CORE_SCOPE_PLUGIN, ...registeredPlugins];
+
+/**
+ * Merges plugins in order (later wins) into parameters, preamble and modules.
+ */
+export const resolveScope = (plugins: ScopePlugin[]): ResolvedScope => {
+  const scope: Record<string, unknown> = {};
+  const modules: Record<string, ModuleRegistry[string] | undefined> = {};
+  const destructures = new Map<string, string>(); // name -> source
+  const hooks: [string, (current: any) => any][] = [];
+
+  plugins.forEach(plugin => {
+    validateIdentifiers(plugin);
+    Object.assign(scope, plugin.scope);
+    Object.assign(modules, plugin.modules);
+    (plugin.preamble || []).forEach(({ from, names }) => names.forEach(name => destructures.set(name, from)));
+    Object.entries(plugin.hooks || {}).forEach(entry => hooks.push(entry));
+  });
+
+  // Apply hook wrappers to the bare name and to every namespace that exposes it.
+  // Copies are shared so `leva` in scope and the 'leva' module stay the same object.
+  hooks.forEach(([name, wrap]) => {
+    const copies = new Map<unknown, unknown>();
+    const rewrap = (value: any) => {
+      if (!value || typeof value !== 'object' || !(name in value)) return value;
+      if (!copies.has(value)) copies.set(value, { ...value, [name]: wrap(value[name]) });
+      return copies.get(value);
+    };
+
+    if (name in scope) scope[name] = wrap(scope[name]);
+    Object.keys(scope).forEach(key => { if (key !== name) scope[key] = rewrap(scope[key]); });
+    Object.keys(modules).forEach(key => { modules[key] = rewrap(modules[key]); });
+  });
+
+  // Destructures can only read from entries that are actually injected
+  const bySource = new Map<string, string[]>();
+  const destructured: Record<string, string> = {};
+  destructures.forEach((from, name) => {
+    if (scope[from] === undefined || name in scope) return;
+    bySource.set(from, [...(bySource.get(from) || []), name]);
+    destructured[name] = from;
+  });
+  const preamble = Array.from(bySource.entries())
+    .map(([from, names]) => `const { ${names.join(', ')} } = ${from};`)
+    .join('\n');
+
+  const names = Object.keys(scope).filter(name => scope[name] !== undefined);
+  const registry: ModuleRegistry = {};
+  Object.entries(modules).forEach(([specifier, namespace]) => {
+    if (namespace) registry[specifier] = namespace;
+  });
+
+  return { names, values: names.map(name => scope[name]), preamble, destructured, modules: registry };
+};
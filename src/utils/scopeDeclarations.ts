@@ -0,0 +1,176 @@
+import { ResolvedScope } from './scope';
+
+// ============================================================================
+// SCOPE DECLARATIONS
+// Ambient TypeScript declarations describing exactly what compileComponent
+// injects: scope parameters, preamble names and registry modules. They are
+// generated from the resolved scope itself, so scope plugins are covered
+// automatically. Most members are `any`; the hooks generated code misuses
+// most often get real signatures (PhysiGen namespace below).
+// ============================================================================
+
+export const SCOPE_DECLARATIONS_FILE = '/src/__scope.d.ts';
+
+const HOOK_TYPES = `
+declare namespace PhysiGen {
+  type Deps = readonly any[];
+  type SetState<T> = (value: T | ((prev: T) => T)) => void;
+  type UseState = <T = any>(initial?: T | (() => T)) => [T, SetState<T>];
+  type UseRef = <T = any>(initial?: T) => { current: T };
+  type UseMemo = <T>(factory: () => T, deps?: Deps) => T;
+  type UseCallback = <T extends (...args: any[]) => any>(callback: T, deps?: Deps) => T;
+  type UseEffect = (effect: () => any, deps?: Deps) => void;
+  type UseReducer = (reducer: (state: any, action: any) => any, initial: any, init?: (arg: any) => any) => [any, (action?: any) => void];
+
+  interface FrameState {
+    clock: any; camera: any; scene: any; gl: any; raycaster: any;
+    pointer: any; mouse: any; viewport: any;
+    size: { width: number; height: number; top: number; left: number };
+    [key: string]: any;
+  }
+  type UseFrame = (callback: (state: FrameState, delta: number, frame?: any) => void, priority?: number) => null;
+  type UseThree = (selector?: (state: FrameState) => any) => any;
+  type UseSnapshot = <T>(key: string, capture: () => T, restore: (state: T) => void) => void;
+  type Vec3 = [number, number, number];
+  type UseCameraTarget = (name: string, target: { current: any } | (() => any)) => void;
+  type UseInitialCamera = (camera: { position: Vec3; target?: Vec3; fov?: number }) => void;
+  type UseQuality = () => { level: 'high' | 'medium' | 'low'; detail: number };
+  type UseProbe = (name: string, value: number | (() => number), options?: { unit?: string }) => void;
+  type UseInvariant = (name: string, read: () => number | readonly number[] | { toArray(): number[] }, options?: { tolerance?: number; unit?: string; scale?: number }, deps?: Deps) => void;
+  type AnalyticValue = number | readonly number[] | { toArray(): number[] };
+  type UseAnalytic = (name: string, solution: (t: number) => AnalyticValue, options?: { actual?: () => AnalyticValue; unit?: string; color?: string; duration?: number }, deps?: Deps) => void;
+
+  // leva: controls become typed values; folders are flattened, buttons produce none
+  interface ButtonInput { readonly __levaButton: true }
+  interface FolderInput<S> { readonly __levaFolder: S }
+  type Widen<V> = V extends number ? number : V extends string ? string : V extends boolean ? boolean : V;
+  type ControlValue<I> =
+    I extends { value: infer V } ? Widen<V> :
+    I extends { options: readonly (infer O)[] } ? O :
+    I extends { options: Record<string, infer O> } ? O :
+    I extends number | string | boolean ? Widen<I> : any;
+  type UnionToIntersection<U> = (U extends any ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
+  type FolderValues<S> = UnionToIntersection<{ [K in keyof S]: S[K] extends FolderInput<infer F> ? ControlValues<F> : never }[keyof S]>;
+  type ControlValues<S> =
+    { [K in keyof S as S[K] extends ButtonInput | FolderInput<any> ? never : K]: ControlValue<S[K]> } &
+    ([keyof S] extends [never] ? {} : FolderValues<S> extends infer F ? (unknown extends F ? {} : F) : {});
+  type SetControls<S> = (values: Partial<ControlValues<S>>) => void;
+  interface UseControls {
+    <S extends Record<string, any>>(schema: () => S, deps?: Deps): [ControlValues<S>, SetControls<S>];
+    <S extends Record<string, any>>(schema: S, deps?: Deps): ControlValues<S>;
+    <S extends Record<string, any>>(name: string, schema: () => S, deps?: Deps): [ControlValues<S>, SetControls<S>];
+    <S extends Record<string, any>>(name: string, schema: () => S, settings?: Record<string, any>, deps?: Deps): [ControlValues<S>, SetControls<S>];
+    <S extends Record<string, any>>(name: string, schema: S, deps?: Deps): ControlValues<S>;
+    <S extends Record<string, any>>(name: string, schema: S, settings?: Record<string, any>, deps?: Deps): ControlValues<S>;
+  }
+  type Folder = <S extends Record<string, any>>(schema: S, settings?: Record<string, any>) => FolderInput<S>;
+  type Button = (onClick: (get: (path: string) => any) => void, settings?: Record<string, any>) => ButtonInput;
+}
+
+// Elements stay untyped; only the props React handles itself are allowed on every component
+declare namespace JSX {
+  interface IntrinsicAttributes { key?: any; ref?: any }
+}
+`;
+
+// Members typed by name, wherever they are exposed (bare, on a namespace, or in a module)
+const TYPED_MEMBERS: Record<string, string> = {
+  useState: 'PhysiGen.UseState',
+  useRef: 'PhysiGen.UseRef',
+  useMemo: 'PhysiGen.UseMemo',
+  useCallback: 'PhysiGen.UseCallback',
+  useEffect: 'PhysiGen.UseEffect',
+  useLayoutEffect: 'PhysiGen.UseEffect',
+  useReducer: 'PhysiGen.UseReducer',
+  useFrame: 'PhysiGen.UseFrame',
+  useThree: 'PhysiGen.UseThree',
+  useSnapshot: 'PhysiGen.UseSnapshot',
+  useCameraTarget: 'PhysiGen.UseCameraTarget',
+  useInitialCamera: 'PhysiGen.UseInitialCamera',
+  useQuality: 'PhysiGen.UseQuality',
+  useProbe: 'PhysiGen.UseProbe',
+  useInvariant: 'PhysiGen.UseInvariant',
+  useAnalytic: 'PhysiGen.UseAnalytic',
+  useControls: 'PhysiGen.UseControls',
+  folder: 'PhysiGen.Folder',
+  button: 'PhysiGen.Button',
+};
+
+// Type-only names code commonly writes against a namespace that have no runtime value
+const EXTRA_TYPES: Record<string, string[]> = {
+  React: [
+    'FC', 'ReactNode', 'ReactElement', 'MutableRefObject', 'RefObject', 'Ref', 'CSSProperties',
+    'Dispatch', 'SetStateAction', 'ComponentProps', 'PropsWithChildren', 'ChangeEvent', 'MouseEvent',
+    'PointerEvent', 'KeyboardEvent', 'JSX', 'ElementRef',
+  ],
+  ReactThreeFiber: ['RootState', 'ThreeEvent', 'ThreeElements', 'Vector3', 'Euler', 'Color'],
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const RESERVED = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+  'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void',
+  'while', 'with',
+]);
+
+const isDeclarable = (name: string) => IDENTIFIER.test(name) && !RESERVED.has(name);
+const isNamespace = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const memberType = (name: string, value: unknown) =>
+  typeof value === 'function' && TYPED_MEMBERS[name] ? TYPED_MEMBERS[name] : 'any';
+
+// Generic with defaults so `THREE.Mesh`, `React.FC<P>` and `THREE.BufferGeometry<A, B>` all resolve
+const typeAlias = (name: string) => `type ${name}<A = any, B = any, C = any> = any;`;
+
+const typeNames = (namespace: Record<string, unknown>, extra: string[] = []) =>
+  Array.from(new Set([...Object.keys(namespace).filter(key => /^[A-Z]/.test(key) && isDeclarable(key)), ...extra]));
+
+/** Object type listing every member of a namespace. */
+const describeNamespace = (namespace: Record<string, unknown>) => {
+  const members = Object.keys(namespace).map(key => `${JSON.stringify(key)}: ${memberType(key, namespace[key])};`);
+  return `{ ${members.join(' ')} }`;
+};
+
+const describeValue = (name: string, value: unknown) => {
+  if (isNamespace(value)) return describeNamespace(value);
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return typeof value;
+  return memberType(name, value);
+};
+
+/**
+ * Builds the ambient declaration file for a resolved scope.
+ */
+export const declareScope = (scope: ResolvedScope): string => {
+  const lines: string[] = [HOOK_TYPES];
+
+  // 1. Scope parameters (values, plus a type namespace for namespaces)
+  scope.names.forEach((name, i) => {
+    const value = scope.values[i];
+    lines.push(`declare const ${name}: ${describeValue(name, value)};`);
+    if (isNamespace(value)) {
+      lines.push(`declare namespace ${name} { ${typeNames(value, EXTRA_TYPES[name]).map(typeAlias).join(' ')} }`);
+    }
+  });
+
+  // 2. Preamble names, typed like the member they are read from
+  Object.entries(scope.destructured).forEach(([name, from]) => {
+    const source = scope.values[scope.names.indexOf(from)];
+    const value = isNamespace(source) ? source[name] : undefined;
+    lines.push(`declare const ${name}: ${memberType(name, value)};`);
+  });
+
+  // 3. Registry modules
+  Object.entries(scope.modules).forEach(([specifier, namespace]) => {
+    const exports = Object.keys(namespace)
+      .filter(key => key !== 'default' && isDeclarable(key))
+      .map(key => `export const ${key}: ${memberType(key, namespace[key])};`);
+    const types = typeNames(namespace).map(name => `export ${typeAlias(name)}`);
+    const defaultExport = 'default' in namespace
+      ? [`const __default: ${describeValue('default', namespace.default)};`, 'export default __default;']
+      : [];
+    lines.push(`declare module ${JSON.stringify(specifier)} {\n  ${[...exports, ...types, ...defaultExport].join('\n  ')}\n}`);
+  });
+
+  return lines.join('\n');
+};
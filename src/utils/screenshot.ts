@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+
+// ============================================================================
+// SCREENSHOT
+// Renders one extra frame of the scene at an arbitrary size by resizing the
+// drawing buffer for a moment, then composites it onto a 2D canvas (background
+// and caption) and encodes a PNG. The visible canvas is restored before the
+// browser paints, so the user never sees the resized frame.
+// ============================================================================
+
+export type ScreenshotResolution = 'screen' | '2x' | '4x' | '1080p' | '1440p' | '2160p';
+
+// leva options (label -> resolution)
+export const RESOLUTION_OPTIONS: Record<string, ScreenshotResolution> = {
+  'Screen': 'screen',
+  '2× Screen': '2x',
+  '4× Screen': '4x',
+  '1920×1080': '1080p',
+  '2560×1440': '1440p',
+  '3840×2160': '2160p',
+};
+
+const FIXED_SIZES: Partial<Record<ScreenshotResolution, [number, number]>> = {
+  '1080p': [1920, 1080],
+  '1440p': [2560, 1440],
+  '2160p': [3840, 2160],
+};
+
+const SCREEN_SCALES: Partial<Record<ScreenshotResolution, number>> = { screen: 1, '2x': 2, '4x': 4 };
+
+const BACKGROUND = '#000000';
+
+export interface ScreenshotOptions {
+  resolution: ScreenshotResolution;
+  transparent: boolean;
+  /** Lines printed in a band along the bottom edge; none when empty. */
+  caption?: string[];
+}
+
+/** Pixel size of a resolution option, clamped to what the GPU can render. */
+export const resolveResolution = (gl: THREE.WebGLRenderer, resolution: ScreenshotResolution, screen: { width: number; height: number }) => {
+  const fixed = FIXED_SIZES[resolution];
+  const scale = SCREEN_SCALES[resolution] ?? 1;
+  let width = fixed ? fixed[0] : Math.round(screen.width * scale);
+  let height = fixed ? fixed[1] : Math.round(screen.height * scale);
+
+  const context = gl.getContext();
+  const dims = context.getParameter(context.MAX_VIEWPORT_DIMS) as Int32Array;
+  const limit = Math.min(context.getParameter(context.MAX_RENDERBUFFER_SIZE) as number, dims[0], dims[1]);
+  const shrink = Math.min(1, limit / Math.max(width, height));
+  width = Math.floor(width * shrink);
+  height = Math.floor(height * shrink);
+  return { width, height };
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, lines: string[], width: number, height: number) => {
+  const fontSize = Math.max(12, Math.round(height / 45));
+  const padding = Math.round(fontSize * 0.8);
+  const lineHeight = Math.round(fontSize * 1.35);
+  const bandHeight = padding * 2 + lineHeight * lines.length;
+
+  ctx.fillStyle = 'rgba(9, 9, 11, 0.75)';
+  ctx.fillRect(0, height - bandHeight, width, bandHeight);
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => {
+    ctx.font = `${i === 0 ? 600 : 400} ${i === 0 ? fontSize : Math.round(fontSize * 0.8)}px ui-sans-serif, system-ui, sans-serif`;
+    ctx.fillStyle = i === 0 ? '#ffffff' : '#a1a1aa';
+    ctx.fillText(line, padding, height - bandHeight + padding + i * lineHeight, width - padding * 2);
+  });
+};
+
+/**
+ * Renders `scene` through `camera` at the requested resolution and returns a PNG.
+ */
+export const captureScreenshot = (
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  options: ScreenshotOptions,
+): Promise<Blob> => {
+  const previousSize = gl.getSize(new THREE.Vector2());
+  const previousRatio = gl.getPixelRatio();
+  const previousClear = gl.getClearColor(new THREE.Color());
+  const previousAlpha = gl.getClearAlpha();
+  const previousBackground = scene.background;
+  const { width, height } = resolveResolution(gl, options.resolution, { width: previousSize.x, height: previousSize.y });
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d')!;
+
+  const perspective = camera instanceof THREE.PerspectiveCamera ? camera : null;
+  const previousAspect = perspective?.aspect;
+
+  try {
+    gl.setPixelRatio(1);
+    gl.setSize(width, height, false);
+    if (perspective) {
+      perspective.aspect = width / height;
+      perspective.updateProjectionMatrix();
+    }
+    if (options.transparent) scene.background = null;
+    gl.setClearColor(previousClear, options.transparent ? 0 : previousAlpha);
+    gl.render(scene, camera);
+
+    // Must happen in the same task as the render, before the buffer is presented
+    if (!options.transparent) {
+      ctx.fillStyle = BACKGROUND;
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(gl.domElement, 0, 0, width, height);
+  } finally {
+    scene.background = previousBackground;
+    gl.setClearColor(previousClear, previousAlpha);
+    gl.setPixelRatio(previousRatio);
+    gl.setSize(previousSize.x, previousSize.y, false);
+    if (perspective && previousAspect !== undefined) {
+      perspective.aspect = previousAspect;
+      perspective.updateProjectionMatrix();
+    }
+  }
+
+  if (options.caption?.length) drawCaption(ctx, options.caption, width, height);
+
+  return new Promise((resolve, reject) => {
+    output.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+};
+
+/** "gravity 9.8 · speed 1 · color #ff0000" from captured control values. */
+export const formatControlValues = (values: Record<string, unknown>) =>
+  Object.entries(values)
+    .map(([path, value]) => {
+      const label = path.split('.').pop();
+      const shown = typeof value === 'number' ? String(Number(value.toFixed(3))) : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return `${label} ${shown}`;
+    })
+    .join(' · ');
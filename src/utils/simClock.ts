@@ -0,0 +1,102 @@
+// ============================================================================
+// SIMULATION CLOCK
+// The host owns simulated time. Real frame time is scaled and accumulated,
+// then spent in fixed steps (each split into equal substeps), so a sim sees
+// the same sequence of `delta` values at 30 Hz and at 144 Hz.
+// This module has no React imports; DynamicScene drives it from useFrame.
+// ============================================================================
+
+export const DEFAULT_TIMESTEP = 1 / 60;
+export const MIN_TIME_SCALE = 0.01;
+export const MAX_TIME_SCALE = 10;
+export const MAX_STEPS_PER_FRAME = 24; // beyond this the sim falls behind instead of freezing the tab
+const MAX_FRAME_DELTA = 0.25;          // tab switches and breakpoints must not dump seconds into the accumulator
+
+export interface SimClockSettings {
+  timestep: number;   // seconds of simulated time per fixed step
+  substeps: number;   // callback invocations per step (each gets timestep / substeps)
+  timeScale: number;
+  paused: boolean;
+}
+
+/**
+ * What `state.clock` looks like to simulation code: a THREE.Clock-compatible
+ * view of simulated (not wall-clock) time.
+ */
+export interface SimClockView {
+  readonly elapsedTime: number;
+  readonly running: boolean;
+  getElapsedTime: () => number;
+  getDelta: () => number;
+}
+
+export const createSimClock = (initial: Partial<SimClockSettings> = {}) => {
+  const settings: SimClockSettings = { timestep: DEFAULT_TIMESTEP, substeps: 1, timeScale: 1, paused: false, ...initial };
+  let time = 0;
+  let accumulator = 0;
+  let pendingSteps = 0;
+  let dt = settings.timestep / settings.substeps;
+
+  const view: SimClockView = {
+    get elapsedTime() { return time; },
+    get running() { return !settings.paused; },
+    getElapsedTime: () => time,
+    getDelta: () => dt,
+  };
+
+  return {
+    view,
+    get time() { return time; },
+    get settings(): Readonly<SimClockSettings> { return settings; },
+
+    configure: (next: Partial<SimClockSettings>) => {
+      Object.assign(settings, next);
+      settings.timeScale = Math.min(MAX_TIME_SCALE, Math.max(MIN_TIME_SCALE, settings.timeScale));
+      settings.substeps = Math.max(1, Math.round(settings.substeps));
+      if (settings.paused) accumulator = 0;
+    },
+
+    /** Queues one fixed step; honoured even while paused. */
+    requestStep: () => { pendingSteps++; },
+
+    /**
+     * Spends a frame's real time. Returns how many substep calls to run this
+     * frame and the simulated delta each of them receives.
+     */
+    advance: (realDelta: number) => {
+      let steps = 0;
+      if (!settings.paused) {
+        accumulator += Math.min(realDelta, MAX_FRAME_DELTA) * settings.timeScale;
+        steps = Math.floor(accumulator / settings.timestep);
+        accumulator -= steps * settings.timestep;
+      }
+      steps += pendingSteps;
+      pendingSteps = 0;
+
+      if (steps > MAX_STEPS_PER_FRAME) {
+        steps = MAX_STEPS_PER_FRAME;
+        accumulator = 0;
+      }
+      dt = settings.timestep / settings.substeps;
+      return { calls: steps * settings.substeps, dt };
+    },
+
+    /** Moves simulated time forward by one substep (called before each round of callbacks). */
+    tick: () => { time += dt; },
+
+    /** Jumps to a simulated time (restoring a snapshot); pending real time is dropped. */
+    seek: (nextTime: number) => {
+      time = nextTime;
+      accumulator = 0;
+      pendingSteps = 0;
+    },
+
+    reset: () => {
+      time = 0;
+      accumulator = 0;
+      pendingSteps = 0;
+    },
+  };
+};
+
+export type SimClock = ReturnType<typeof createSimClock>;
@@ -0,0 +1,213 @@
+import { SimClock } from './simClock';
+
+// ============================================================================
+// TIME TRAVEL
+// Sims register serializable state with `useSnapshot(key, capture, restore)`.
+// While live, the host captures every provider at a fixed simulated-time
+// interval into a ring buffer. The timeline can then scrub (restore one
+// snapshot), replay (restore them in sequence) or branch (drop the future and
+// continue simulating from the shown moment).
+// ============================================================================
+
+export const SNAPSHOT_INTERVAL = 1 / 20; // seconds of simulated time between captures
+export const SNAPSHOT_CAPACITY = 1200;   // 60 s of history at the default interval
+
+export interface SnapshotProvider {
+  capture: () => unknown;
+  restore: (state: any) => void;
+}
+
+export interface Snapshot {
+  time: number;
+  states: Record<string, unknown>;
+}
+
+export type TimeTravelMode = 'live' | 'scrub' | 'replay';
+
+export interface TimeTravelStatus {
+  enabled: boolean; // at least one provider registered
+  mode: TimeTravelMode;
+  cursor: number;   // snapshot shown while not live
+  size: number;
+  startTime: number;
+  endTime: number;
+  time: number;
+}
+
+/**
+ * Fixed-capacity history; the oldest snapshot is overwritten when full.
+ */
+export const createSnapshotHistory = (capacity = SNAPSHOT_CAPACITY) => {
+  const buffer: Snapshot[] = [];
+  let start = 0;
+  let size = 0;
+
+  const at = (index: number): Snapshot | undefined =>
+    index >= 0 && index < size ? buffer[(start + index) % capacity] : undefined;
+
+  return {
+    get size() { return size; },
+    at,
+
+    push: (snapshot: Snapshot) => {
+      if (size < capacity) {
+        buffer[(start + size) % capacity] = snapshot;
+        size++;
+      } else {
+        buffer[start] = snapshot;
+        start = (start + 1) % capacity;
+      }
+    },
+
+    /** Index of the last snapshot taken at or before `time` (0 if none). */
+    indexAt: (time: number) => {
+      let lo = 0;
+      let hi = size - 1;
+      while (lo < hi) {
+        const mid = Math.ceil((lo + hi) / 2);
+        if (at(mid)!.time <= time) lo = mid;
+        else hi = mid - 1;
+      }
+      return Math.max(0, lo);
+    },
+
+    /** Drops everything after `index` (branching from the past). */
+    truncateAfter: (index: number) => { size = Math.min(size, index + 1); },
+
+    clear: () => {
+      start = 0;
+      size = 0;
+    },
+  };
+};
+
+/**
+ * Host-side controller tying the snapshot history to the simulation clock.
+ */
+export const createTimeTravel = (clock: SimClock) => {
+  const history = createSnapshotHistory();
+  const providers = new Map<string, SnapshotProvider>();
+  let mode: TimeTravelMode = 'live';
+  let cursor = -1;
+  let replayTime = 0;
+  let lastCapture = -Infinity;
+
+  const collect = (): Snapshot => {
+    const states: Record<string, unknown> = {};
+    providers.forEach((provider, key) => {
+      try {
+        // Cloned so later mutation by the sim cannot rewrite history
+        states[key] = structuredClone(provider.capture());
+      } catch (err) {
+        console.warn(`Snapshot "${key}" could not be captured`, err);
+      }
+    });
+    return { time: clock.time, states };
+  };
+
+  const capture = () => {
+    history.push(collect());
+    lastCapture = clock.time;
+  };
+
+  const apply = (snapshot: Snapshot) => {
+    clock.seek(snapshot.time);
+    Object.entries(snapshot.states).forEach(([key, state]) => {
+      try {
+        providers.get(key)?.restore(structuredClone(state));
+      } catch (err) {
+        console.warn(`Snapshot "${key}" could not be restored`, err);
+      }
+    });
+  };
+
+  const show = (index: number) => {
+    const snapshot = history.at(index);
+    if (!snapshot) return;
+    cursor = index;
+    apply(snapshot);
+  };
+
+  const reset = () => {
+    history.clear();
+    mode = 'live';
+    cursor = -1;
+    lastCapture = -Infinity;
+  };
+
+  return {
+    get mode() { return mode; },
+
+    register: (key: string, provider: SnapshotProvider) => {
+      if (providers.has(key)) console.warn(`Snapshot key "${key}" registered twice; the last one wins`);
+      providers.set(key, provider);
+      return () => { if (providers.get(key) === provider) providers.delete(key); };
+    },
+
+    /** Called by the host after each live frame that advanced the clock. */
+    afterStep: () => {
+      if (mode !== 'live' || providers.size === 0) return;
+      if (history.size === 0 || clock.time - lastCapture >= SNAPSHOT_INTERVAL - 1e-9) capture();
+    },
+
+    /** Called by the host every frame while replaying; returns false once the end is reached. */
+    advanceReplay: (realDelta: number) => {
+      if (mode !== 'replay') return false;
+      replayTime += realDelta * clock.settings.timeScale;
+      const index = history.indexAt(replayTime);
+      if (index !== cursor) show(index);
+      if (index >= history.size - 1) {
+        mode = 'scrub';
+        return false;
+      }
+      return true;
+    },
+
+    seek: (index: number) => {
+      mode = 'scrub';
+      show(Math.max(0, Math.min(history.size - 1, index)));
+    },
+
+    play: () => {
+      if (history.size === 0) return;
+      // From live or from the end, replay starts over at the oldest snapshot
+      if (mode === 'live' || cursor >= history.size - 1) show(0);
+      replayTime = history.at(cursor)!.time;
+      mode = 'replay';
+    },
+
+    pause: () => { if (mode === 'replay') mode = 'scrub'; },
+
+    /** Continues the simulation from the shown snapshot; its future is discarded. */
+    branch: () => {
+      if (mode === 'live') return;
+      history.truncateAfter(cursor);
+      lastCapture = clock.time;
+      mode = 'live';
+      cursor = -1;
+    },
+
+    reset,
+
+    /** Current state of every provider, for saving; works in any mode. */
+    snapshot: collect,
+
+    /** Jumps to a saved moment and continues live from there with a fresh history. */
+    resume: (snapshot: Snapshot) => {
+      apply(snapshot);
+      reset();
+    },
+
+    status: (): TimeTravelStatus => ({
+      enabled: providers.size > 0,
+      mode,
+      cursor: mode === 'live' ? history.size - 1 : cursor,
+      size: history.size,
+      startTime: history.at(0)?.time ?? 0,
+      endTime: history.at(history.size - 1)?.time ?? 0,
+      time: clock.time,
+    }),
+  };
+};
+
+export type TimeTravel = ReturnType<typeof createTimeTravel>;
@@ -0,0 +1,96 @@
+import { SourceMapConsumer, RawSourceMap } from 'source-map-js';
+
+// ============================================================================
+// SOURCE MAPPING
+// Generated code passes through three layers before it runs:
+//   original componentCode
+//     -> wrapped source   (Strategy B adds `lineOffset` wrapper lines)
+//     -> Babel output     (source map from the transform)
+//     -> Function body    (`preambleLines` of injected scope above the output)
+// These helpers walk a position back through all of them. Helper files of a
+// simulation package get their own sourceURL so frames can be told apart.
+// ============================================================================
+
+export const SIMULATION_SOURCE_URL = 'physigen-simulation.js';
+
+export const packageSourceURL = (file: string) => `physigen-package/${file}`;
+
+// V8 renders `new Function(params, body)` as "function anonymous(params\n) {\n" + body
+const FUNCTION_HEADER_LINES = 2;
+
+const STACK_FRAMES = /(physigen-simulation\.js|physigen-package\/[^\s:()]+):(\d+):(\d+)/g;
+
+export interface SourceLocation {
+  line: number;   // 1-based, in the original code
+  column: number; // 0-based
+  file?: string;  // helper file of a package; absent for the main component
+}
+
+export interface SimulationSourceMap {
+  sourceURL: string;
+  /** Maps a Babel-input (wrapped) position back to the original code. */
+  fromWrapped: (line: number, column: number) => SourceLocation;
+  /** Maps a 1-based line / 0-based column in the Babel output back to the original code. */
+  fromTransformed: (line: number, column: number) => SourceLocation | null;
+  /** Maps a 1-based line / column reported by a stack frame for this sourceURL. */
+  fromFrame: (line: number, column: number) => SourceLocation | null;
+  /** Finds the first frame of this (or a linked) file in an error stack and maps it back. */
+  fromStack: (stack?: string) => SourceLocation | null;
+}
+
+const framesOf = (stack?: string) =>
+  Array.from((stack || '').matchAll(STACK_FRAMES)).map(m => ({ url: m[1], line: Number(m[2]), column: Number(m[3]) }));
+
+export const createSimulationSourceMap = (options: {
+  map?: RawSourceMap | null;
+  lineOffset: number;
+  preambleLines: number;
+  file?: string;
+}): SimulationSourceMap => {
+  const { lineOffset, preambleLines, file } = options;
+  const consumer = options.map ? new SourceMapConsumer(options.map) : null;
+  const sourceURL = file ? packageSourceURL(file) : SIMULATION_SOURCE_URL;
+
+  const fromWrapped = (line: number, column: number): SourceLocation => ({
+    line: Math.max(1, line - lineOffset),
+    column,
+    ...(file ? { file } : {}),
+  });
+
+  const fromTransformed = (line: number, column: number): SourceLocation | null => {
+    if (!consumer || line < 1) return null;
+    const original = consumer.originalPositionFor({ line, column, bias: SourceMapConsumer.GREATEST_LOWER_BOUND });
+    if (original.line == null) return null;
+    return fromWrapped(original.line, original.column ?? 0);
+  };
+
+  // Stack columns are 1-based, source map columns are 0-based
+  const fromFrame = (line: number, column: number) =>
+    fromTransformed(line - FUNCTION_HEADER_LINES - preambleLines, Math.max(0, column - 1));
+
+  const fromStack = (stack?: string): SourceLocation | null => {
+    const frame = framesOf(stack).find(f => f.url === sourceURL);
+    return frame ? fromFrame(frame.line, frame.column) : null;
+  };
+
+  return { sourceURL, fromWrapped, fromTransformed, fromFrame, fromStack };
+};
+
+/**
+ * Combines the main component's map with those of its helper files so that
+ * `fromStack` reports the innermost simulation frame, whichever file it is in.
+ */
+export const linkSourceMaps = (main: SimulationSourceMap, helpers: SimulationSourceMap[]): SimulationSourceMap => {
+  if (helpers.length === 0) return main;
+  const byURL = new Map([main, ...helpers].map(m => [m.sourceURL, m]));
+
+  const fromStack = (stack?: string): SourceLocation | null => {
+    for (const frame of framesOf(stack)) {
+      const located = byURL.get(frame.url)?.fromFrame(frame.line, frame.column);
+      if (located) return located;
+    }
+    return null;
+  };
+
+  return { ...main, fromStack };
+};
@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+
+// ============================================================================
+// STROBOSCOPE
+// Multi-exposure capture of tagged objects. While capturing, the host samples
+// every tagged object at equal intervals of simulated time and leaves a
+// translucent copy of its meshes behind; when the window ends the copies stay
+// as a frozen overlay until cleared. Ghosts own copies of the sim's geometry,
+// since sims may rewrite vertices in place; a copy is reused by later exposures
+// until the source's attributes change. Skinned meshes are posed on the GPU
+// and cannot be copied this way; they are skipped and counted.
+// ============================================================================
+
+export type StrobeState = 'idle' | 'capturing' | 'frozen';
+
+export interface StrobeStatus {
+  state: StrobeState;
+  exposures: number;
+  /** Meshes left out of the capture (skinned meshes). */
+  skipped: number;
+}
+
+const GHOST_OPACITY = 0.35;
+const MAX_EXPOSURES = 400; // across all objects; guards against tiny intervals
+
+type Tagged = [name: string, object: THREE.Object3D];
+
+const ghostMaterial = (source: THREE.Material | THREE.Material[]) => {
+  const material = Array.isArray(source) ? source[0] : source;
+  const color = (material as THREE.MeshStandardMaterial | undefined)?.color ?? new THREE.Color('#ffffff');
+  return new THREE.MeshBasicMaterial({ color, transparent: true, opacity: GHOST_OPACITY, depthWrite: false });
+};
+
+// Bumped by every write to the geometry's attributes or index
+const geometryVersion = (geometry: THREE.BufferGeometry) =>
+  Object.values(geometry.attributes).reduce((sum, attribute) => sum + (attribute as THREE.BufferAttribute).version, geometry.index?.version ?? 0);
+
+export const createStroboscope = () => {
+  const layer = new THREE.Group();
+  layer.name = 'stroboscope';
+  let state: StrobeState = 'idle';
+  let interval = 0.1;
+  let endTime = 0;
+  let nextAt = 0;
+  let exposures = 0;
+  let skipped = 0;
+  const listeners = new Set<(status: StrobeStatus) => void>();
+  // Latest copy of each source geometry and the version it was copied at
+  let copies = new WeakMap<THREE.BufferGeometry, { copy: THREE.BufferGeometry; version: number }>();
+  const owned = new Set<THREE.BufferGeometry>();
+
+  const emit = () => listeners.forEach(listener => listener({ state, exposures, skipped }));
+
+  const copyGeometry = (geometry: THREE.BufferGeometry) => {
+    const version = geometryVersion(geometry);
+    const cached = copies.get(geometry);
+    if (cached && cached.version === version) return cached.copy;
+    const copy = geometry.clone();
+    copies.set(geometry, { copy, version });
+    owned.add(copy);
+    return copy;
+  };
+
+  const expose = (object: THREE.Object3D) => {
+    object.updateWorldMatrix(true, true);
+    object.traverse(child => {
+      const mesh = child as THREE.Mesh;
+      if (!mesh.isMesh || !mesh.visible) return;
+      if ((mesh as THREE.SkinnedMesh).isSkinnedMesh) {
+        skipped++;
+        return;
+      }
+      const source = mesh as THREE.InstancedMesh;
+      let ghost: THREE.Mesh;
+      if (source.isInstancedMesh) {
+        // Instance transforms change every step; each exposure keeps its own
+        const instanced = new THREE.InstancedMesh(copyGeometry(source.geometry), ghostMaterial(source.material), source.count);
+        instanced.instanceMatrix.copy(source.instanceMatrix);
+        ghost = instanced;
+      } else {
+        ghost = new THREE.Mesh(copyGeometry(mesh.geometry), ghostMaterial(mesh.material));
+      }
+      if (mesh.morphTargetInfluences) ghost.morphTargetInfluences = mesh.morphTargetInfluences.slice();
+      ghost.matrixAutoUpdate = false;
+      ghost.matrix.copy(mesh.matrixWorld);
+      ghost.raycast = () => {}; // never intercepts the sim's pointer events
+      layer.add(ghost);
+    });
+    exposures++;
+  };
+
+  const clear = () => {
+    layer.children.forEach(ghost => {
+      ((ghost as THREE.Mesh).material as THREE.Material).dispose();
+      if ((ghost as THREE.InstancedMesh).isInstancedMesh) (ghost as THREE.InstancedMesh).dispose();
+    });
+    layer.clear();
+    owned.forEach(geometry => geometry.dispose());
+    owned.clear();
+    copies = new WeakMap();
+    exposures = 0;
+    skipped = 0;
+    state = 'idle';
+    emit();
+  };
+
+  return {
+    /** Scene object holding the ghosts; mount it once. */
+    layer,
+
+    status: (): StrobeStatus => ({ state, exposures, skipped }),
+    get capturing() { return state === 'capturing'; },
+
+    /** Starts a capture of `window` seconds of simulated time from `time`. */
+    start: (time: number, options: { interval: number; window: number }) => {
+      clear();
+      interval = Math.max(1e-3, options.interval);
+      endTime = time + options.window;
+      nextAt = time;
+      state = 'capturing';
+      emit();
+    },
+
+    /** Called by the host after each simulation step. */
+    sample: (time: number, tagged: Tagged[]) => {
+      if (state !== 'capturing') return;
+      if (time + 1e-9 >= nextAt) {
+        tagged.forEach(([, object]) => expose(object));
+        // Equal spacing even when a step overshoots the sample time
+        nextAt += interval * (Math.floor((time + 1e-9 - nextAt) / interval) + 1);
+      }
+      if (time >= endTime || exposures >= MAX_EXPOSURES) {
+        state = 'frozen';
+        emit();
+      }
+    },
+
+    clear,
+
+    subscribe: (listener: (status: StrobeStatus) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export type Stroboscope = ReturnType<typeof createStroboscope>;
@@ -0,0 +1,34 @@
+import type * as BabelStandalone from '@babel/standalone';
+import type { RawSourceMap } from 'source-map-js';
+import { CodeDiagnostic } from '../types';
+import { CompilerPolicy, createPolicyPlugin } from './policy';
+import { LoopSite, createLoopGuardPlugin } from './cpuBudget';
+
+export interface TransformResult {
+  code: string;
+  map: RawSourceMap | null;
+  findings: CodeDiagnostic[];
+  loopSites: LoopSite[];
+}
+
+/**
+ * Runs the Babel pass over wrapped simulation source. Shared by the worker and
+ * the main-thread fallback so both produce identical output.
+ */
+export const transformSimulationSource = (
+  babel: typeof BabelStandalone,
+  sourceCode: string,
+  policy: CompilerPolicy
+): TransformResult => {
+  const findings: CodeDiagnostic[] = [];
+  const loopSites: LoopSite[] = [];
+  const result = babel.transform(sourceCode, {
+    // FIX: Added 'typescript' preset to handle .tsx generics like useRef<Type>
+    presets: ['react', 'env', 'typescript'],
+    plugins: [createPolicyPlugin(policy, findings), createLoopGuardPlugin(loopSites)],
+    filename: 'dynamic.tsx', // FIX: .tsx extension triggers TS parsing
+    compact: false,
+    sourceMaps: true,
+  });
+  return { code: result.code || '', map: (result.map as unknown as RawSourceMap) || null, findings, loopSites };
+};
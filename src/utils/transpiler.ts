@@ -0,0 +1,92 @@
+import { CompilerPolicy } from './policy';
+import { TransformResult, transformSimulationSource } from './transform';
+
+// ============================================================================
+// TRANSPILER CLIENT
+// Babel is bundled (no CDN) and loaded lazily. Work goes to a Web Worker when
+// the page may spawn one; opaque-origin pages (the sandbox iframe) cannot, so
+// they fall back to a dynamic import on the main thread.
+// ============================================================================
+
+export interface TranspileRequest {
+  id: number;
+  sourceCode: string;
+  policy: CompilerPolicy;
+}
+
+export type TranspileResponse =
+  | ({ id: number; ok: true } & TransformResult)
+  | { id: number; ok: false; error: { message: string; loc?: { line: number; column: number } } };
+
+type Pending = {
+  request: TranspileRequest;
+  resolve: (result: TransformResult) => void;
+  reject: (err: Error) => void;
+};
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 1;
+const pending = new Map<number, Pending>();
+
+const toError = (error: { message: string; loc?: { line: number; column: number } }) => {
+  const err = new SyntaxError(error.message) as SyntaxError & { loc?: { line: number; column: number } };
+  err.loc = error.loc;
+  return err;
+};
+
+const transpileOnMainThread = async (sourceCode: string, policy: CompilerPolicy): Promise<TransformResult> => {
+  const Babel = await import('@babel/standalone');
+  return transformSimulationSource(Babel, sourceCode, policy);
+};
+
+// Hand everything still in flight to the main thread once the worker is unusable
+const abandonWorker = () => {
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+  const stranded = Array.from(pending.values());
+  pending.clear();
+  stranded.forEach(({ request, resolve, reject }) => {
+    transpileOnMainThread(request.sourceCode, request.policy).then(resolve, reject);
+  });
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  try {
+    worker = new Worker(new URL('./transpiler.worker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn("Transpiler worker unavailable, compiling on the main thread", e);
+    workerFailed = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<TranspileResponse>) => {
+    const response = event.data;
+    const entry = pending.get(response.id);
+    if (!entry) return;
+    pending.delete(response.id);
+    if ('error' in response) entry.reject(toError(response.error));
+    else entry.resolve({ code: response.code, map: response.map, findings: response.findings, loopSites: response.loopSites });
+  };
+  worker.onerror = (event) => {
+    console.warn("Transpiler worker crashed, compiling on the main thread", event.message);
+    abandonWorker();
+  };
+  return worker;
+};
+
+/**
+ * Transpiles wrapped simulation source (TSX -> ES5) and collects policy findings.
+ */
+export const transpile = (sourceCode: string, policy: CompilerPolicy): Promise<TransformResult> => {
+  const target = getWorker();
+  if (!target) return transpileOnMainThread(sourceCode, policy);
+
+  return new Promise((resolve, reject) => {
+    const request: TranspileRequest = { id: nextId++, sourceCode, policy };
+    pending.set(request.id, { request, resolve, reject });
+    target.postMessage(request);
+  });
+};
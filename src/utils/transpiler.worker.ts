@@ -0,0 +1,15 @@
+import * as Babel from '@babel/standalone';
+import { transformSimulationSource } from './transform';
+import type { TranspileRequest, TranspileResponse } from './transpiler';
+
+// Babel runs here so large simulations do not block the render thread
+self.onmessage = (event: MessageEvent<TranspileRequest>) => {
+  const { id, sourceCode, policy } = event.data;
+  let response: TranspileResponse;
+  try {
+    response = { id, ok: true, ...transformSimulationSource(Babel, sourceCode, policy) };
+  } catch (err: any) {
+    response = { id, ok: false, error: { message: err?.message || String(err), loc: err?.loc } };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,200 @@
+import { CodeDiagnostic } from '../types';
+import { HoistedImport, hoistImports } from './modules';
+import { PackageFiles, dirname, isCodeFile } from './linker';
+import { SCOPE_DECLARATIONS_FILE } from './scopeDeclarations';
+import type { RawTypeDiagnostic, TypeCheckInput } from './typeCheckHost';
+
+// ============================================================================
+// TYPE CHECK CLIENT
+// Babel's TypeScript preset strips types without checking them. This optional
+// stage runs the real checker against the generated scope declarations, in a
+// worker when possible (same fallback rules as the transpiler).
+//   off   -> never run
+//   warn  -> run in the background; results are attached to the compiled sim
+//   error -> high-confidence findings block the simulation like policy errors
+// ============================================================================
+
+export type TypeCheckMode = 'off' | 'warn' | 'error';
+
+const TYPECHECK_MODES: TypeCheckMode[] = ['off', 'warn', 'error'];
+
+// Deployment setting, chosen at build time via VITE_SIM_TYPECHECK. Unset, only
+// untrusted code (generated, modified, imported) is checked: library sims are
+// known to be sound and should not pay for starting the checker.
+const CONFIGURED_TYPECHECK_MODE: TypeCheckMode | null = TYPECHECK_MODES.includes(import.meta.env.VITE_SIM_TYPECHECK)
+  ? import.meta.env.VITE_SIM_TYPECHECK
+  : null;
+
+export const typeCheckModeFor = (trusted: boolean): TypeCheckMode =>
+  CONFIGURED_TYPECHECK_MODE ?? (trusted ? 'off' : 'warn');
+
+// Findings that almost always mean a crash at runtime (missing names, members,
+// exports, wrong arity, TDZ). Everything else is reported as a warning.
+const BLOCKING_CODES = new Set([
+  2304, // Cannot find name
+  2305, // Module has no exported member
+  2307, // Cannot find module
+  2339, // Property does not exist on type
+  2349, // This expression is not callable
+  2351, // This expression is not constructable
+  2448, // Block-scoped variable used before its declaration
+  2551, // Property does not exist, did you mean
+  2552, // Cannot find name, did you mean
+  2554, // Expected n arguments
+  2555, // Expected at least n arguments
+  2614, // Module has no exported member, did you mean
+  2724, // Module has no exported member, did you mean
+]);
+
+const MAIN_FILE_NAME = '__simulation.tsx';
+const packagePath = (file: string) => `/src/${file}`;
+
+// The main component is checked from its entry's directory so its relative imports resolve
+const mainFile = (entry?: string) => packagePath(entry && dirname(entry) ? `${dirname(entry)}/${MAIN_FILE_NAME}` : MAIN_FILE_NAME);
+
+export interface TypeCheckRequest {
+  id: number;
+  input: TypeCheckInput;
+}
+
+export type TypeCheckResponse =
+  | { id: number; diagnostics: RawTypeDiagnostic[] }
+  | { id: number; error: string };
+
+export interface TypeCheckSource {
+  /** Main component code (named exports already stripped). */
+  code: string;
+  /** Body-only code (Strategy B) that needs a component wrapper. */
+  wrapped: boolean;
+  files: PackageFiles;
+  /** Package path of the main component. */
+  entry?: string;
+  /** Output of `declareScope` for the scope the code will run in. */
+  declarations: string;
+}
+
+// --- Source preparation ---
+
+// Strategy B code is a function body; imports go on the wrapper line so they stay at module level
+const prepareMain = (code: string, wrapped: boolean) => {
+  if (!wrapped) return { text: code, imports: [] as (HoistedImport & { start: number; end: number })[] };
+
+  const hoisted = hoistImports(code);
+  let cursor = 0;
+  const imports = hoisted.imports.map(imp => {
+    const placed = { ...imp, start: cursor, end: cursor + imp.text.length };
+    cursor = placed.end + 1;
+    return placed;
+  });
+  const header = [...imports.map(imp => imp.text), 'const DynamicComponent = (props: any) => {'].join(' ');
+  return { text: `${header}\n${hoisted.code}\n};\nexport {};`, imports };
+};
+
+// --- Worker plumbing ---
+
+type Pending = {
+  request: TypeCheckRequest;
+  resolve: (diagnostics: RawTypeDiagnostic[]) => void;
+  reject: (err: Error) => void;
+};
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 1;
+const pending = new Map<number, Pending>();
+
+const checkOnMainThread = async (input: TypeCheckInput): Promise<RawTypeDiagnostic[]> => {
+  const [ts, { checkSimulationTypes }, { TYPESCRIPT_LIBS }] = await Promise.all([
+    import('typescript'),
+    import('./typeCheckHost'),
+    import('./typeCheckLibs'),
+  ]);
+  return checkSimulationTypes(ts, input, TYPESCRIPT_LIBS);
+};
+
+const abandonWorker = () => {
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+  const stranded = Array.from(pending.values());
+  pending.clear();
+  stranded.forEach(({ request, resolve, reject }) => {
+    checkOnMainThread(request.input).then(resolve, reject);
+  });
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  try {
+    worker = new Worker(new URL('./typeCheck.worker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn("Type-check worker unavailable, checking on the main thread", e);
+    workerFailed = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<TypeCheckResponse>) => {
+    const response = event.data;
+    const entry = pending.get(response.id);
+    if (!entry) return;
+    pending.delete(response.id);
+    if ('error' in response) entry.reject(new Error(response.error));
+    else entry.resolve(response.diagnostics);
+  };
+  worker.onerror = (event) => {
+    console.warn("Type-check worker crashed, checking on the main thread", event.message);
+    abandonWorker();
+  };
+  return worker;
+};
+
+const runCheck = (input: TypeCheckInput): Promise<RawTypeDiagnostic[]> => {
+  const target = getWorker();
+  if (!target) return checkOnMainThread(input);
+
+  return new Promise((resolve, reject) => {
+    const request: TypeCheckRequest = { id: nextId++, input };
+    pending.set(request.id, { request, resolve, reject });
+    target.postMessage(request);
+  });
+};
+
+/**
+ * Type-checks a simulation (and its package files) against the scope declarations.
+ * Diagnostics are reported against the original code. A checker failure is
+ * logged and yields no diagnostics: the stage is advisory by design.
+ */
+export const typeCheckSimulation = async (source: TypeCheckSource): Promise<CodeDiagnostic[]> => {
+  const main = prepareMain(source.code, source.wrapped);
+  const mainPath = mainFile(source.entry);
+  const helpers = Object.keys(source.files).filter(isCodeFile);
+
+  const files: Record<string, string> = { [SCOPE_DECLARATIONS_FILE]: source.declarations, [mainPath]: main.text };
+  Object.entries(source.files).forEach(([path, content]) => { files[packagePath(path)] = content; });
+
+  let raw: RawTypeDiagnostic[];
+  try {
+    raw = await runCheck({ files, roots: [mainPath, ...helpers.map(packagePath)] });
+  } catch (e) {
+    console.warn("Type check failed", e);
+    return [];
+  }
+
+  const locate = (d: RawTypeDiagnostic) => {
+    if (d.file !== mainPath) return { line: d.line, column: d.column, file: d.file.slice('/src/'.length) };
+    if (!source.wrapped) return { line: d.line, column: d.column };
+    if (d.line > 1) return { line: d.line - 1, column: d.column };
+    // Wrapper line: point back at the hoisted import, or at the top of the code
+    const imp = main.imports.find(i => d.column >= i.start && d.column < i.end);
+    return imp ? { line: imp.line, column: imp.column } : { line: 1, column: 0 };
+  };
+
+  return raw
+    .map(d => ({
+      severity: BLOCKING_CODES.has(d.code) ? 'error' as const : 'warning' as const,
+      message: d.message,
+      rule: `ts${d.code}`,
+      ...locate(d),
+    }))
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
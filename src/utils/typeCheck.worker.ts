@@ -0,0 +1,16 @@
+import * as ts from 'typescript';
+import { checkSimulationTypes } from './typeCheckHost';
+import { TYPESCRIPT_LIBS } from './typeCheckLibs';
+import type { TypeCheckRequest, TypeCheckResponse } from './typeCheck';
+
+// The TypeScript checker is large and slow to start; keep it off the render thread
+self.onmessage = (event: MessageEvent<TypeCheckRequest>) => {
+  const { id, input } = event.data;
+  let response: TypeCheckResponse;
+  try {
+    response = { id, diagnostics: checkSimulationTypes(ts, input, TYPESCRIPT_LIBS) };
+  } catch (err: any) {
+    response = { id, error: err?.message || String(err) };
+  }
+  self.postMessage(response);
+};
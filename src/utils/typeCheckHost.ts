@@ -0,0 +1,83 @@
+import type * as TypeScript from 'typescript';
+
+// ============================================================================
+// TYPE-CHECK HOST
+// A TypeScript program over an in-memory file system: the simulation files,
+// the generated scope declarations and the standard library. Shared by the
+// worker and the main-thread fallback so both report identical diagnostics.
+// ============================================================================
+
+export interface TypeCheckInput {
+  /** Absolute virtual paths ('/src/...') to file contents. */
+  files: Record<string, string>;
+  /** Files whose diagnostics are reported (declarations are only read). */
+  roots: string[];
+}
+
+export interface RawTypeDiagnostic {
+  file: string;
+  line: number;   // 1-based, in the checked file
+  column: number; // 0-based
+  code: number;
+  message: string;
+}
+
+const LIB_DIR = '/lib/';
+const LIBS = ['lib.es2020.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'];
+
+export const checkSimulationTypes = (
+  ts: typeof TypeScript,
+  input: TypeCheckInput,
+  libs: Record<string, string>
+): RawTypeDiagnostic[] => {
+  const options: TypeScript.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.Preserve,
+    lib: LIBS,
+    types: [],
+    strict: false,
+    allowJs: true,
+    skipLibCheck: true,
+    esModuleInterop: true,
+    allowImportingTsExtensions: true,
+    noEmit: true,
+  };
+
+  const read = (fileName: string) =>
+    fileName.startsWith(LIB_DIR) ? libs[fileName.slice(LIB_DIR.length)] : input.files[fileName];
+
+  const sourceFiles = new Map<string, TypeScript.SourceFile>();
+  const host: TypeScript.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      const text = read(fileName);
+      if (text === undefined) return undefined;
+      if (!sourceFiles.has(fileName)) sourceFiles.set(fileName, ts.createSourceFile(fileName, text, languageVersion, true));
+      return sourceFiles.get(fileName);
+    },
+    getDefaultLibFileName: () => `${LIB_DIR}lib.d.ts`,
+    writeFile: () => undefined,
+    getCurrentDirectory: () => '/src',
+    getDirectories: () => [],
+    directoryExists: () => true,
+    fileExists: fileName => read(fileName) !== undefined,
+    readFile: read,
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+  };
+
+  const program = ts.createProgram({ rootNames: Object.keys(input.files), options, host });
+
+  return input.roots.flatMap(root => {
+    const sourceFile = program.getSourceFile(root);
+    if (!sourceFile) return [];
+    return [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)]
+      .filter(d => d.start !== undefined)
+      .map(d => {
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(d.start!);
+        return { file: root, line: line + 1, column: character, code: d.code, message: ts.flattenDiagnosticMessageText(d.messageText, '\n') };
+      });
+  });
+};
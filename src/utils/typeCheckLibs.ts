@@ -0,0 +1,11 @@
+// Standard library declarations for the type-check host, bundled only into the
+// lazily loaded type-check chunk. Keys are bare file names ('lib.es5.d.ts').
+const modules = import.meta.glob('/node_modules/typescript/lib/lib.{es5,es201*,es2020*,dom,dom.iterable,decorators*}.d.ts', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+}) as Record<string, string>;
+
+export const TYPESCRIPT_LIBS: Record<string, string> = Object.fromEntries(
+  Object.entries(modules).map(([path, text]) => [path.slice(path.lastIndexOf('/') + 1), text])
+);
@@ -0,0 +1,145 @@
+import * as THREE from 'three';
+
+// ============================================================================
+// VIEWPORTS
+// Split layouts render the one scene several times per frame, each time into
+// a scissored region with its own camera: the orbit (perspective) camera or
+// an orthographic projection along an axis. Orthographic views stay centred
+// on the orbit target, so they follow whatever the main view looks at, and
+// keep their own pan and zoom.
+// ============================================================================
+
+export type OrthoKind = 'front' | 'top' | 'side';
+export type ViewKind = 'perspective' | OrthoKind;
+
+/** Region of the canvas as fractions, measured from the top-left corner. */
+export interface Viewport {
+  kind: ViewKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ViewportLayout = 'single' | 'perspective-front' | 'front-top' | 'quad';
+
+export const VIEWPORT_LAYOUTS: Record<ViewportLayout, Viewport[]> = {
+  single: [{ kind: 'perspective', x: 0, y: 0, width: 1, height: 1 }],
+  'perspective-front': [
+    { kind: 'perspective', x: 0, y: 0, width: 0.5, height: 1 },
+    { kind: 'front', x: 0.5, y: 0, width: 0.5, height: 1 },
+  ],
+  'front-top': [
+    { kind: 'front', x: 0, y: 0, width: 0.5, height: 1 },
+    { kind: 'top', x: 0.5, y: 0, width: 0.5, height: 1 },
+  ],
+  quad: [
+    { kind: 'perspective', x: 0, y: 0, width: 0.5, height: 0.5 },
+    { kind: 'top', x: 0.5, y: 0, width: 0.5, height: 0.5 },
+    { kind: 'front', x: 0, y: 0.5, width: 0.5, height: 0.5 },
+    { kind: 'side', x: 0.5, y: 0.5, width: 0.5, height: 0.5 },
+  ],
+};
+
+// leva options (label -> layout)
+export const LAYOUT_OPTIONS: Record<string, ViewportLayout> = {
+  'Single': 'single',
+  'Perspective + Front': 'perspective-front',
+  'Front + Top': 'front-top',
+  'Quad': 'quad',
+};
+
+export const VIEW_LABELS: Record<ViewKind, string> = {
+  perspective: 'Perspective',
+  front: 'Front (XY)',
+  top: 'Top (XZ)',
+  side: 'Side (ZY)',
+};
+
+// Where each orthographic camera sits relative to the target, and its screen axes
+const ORTHO_AXES: Record<OrthoKind, { offset: THREE.Vector3; up: THREE.Vector3; right: THREE.Vector3 }> = {
+  front: { offset: new THREE.Vector3(0, 0, 1), up: new THREE.Vector3(0, 1, 0), right: new THREE.Vector3(1, 0, 0) },
+  top: { offset: new THREE.Vector3(0, 1, 0), up: new THREE.Vector3(0, 0, -1), right: new THREE.Vector3(1, 0, 0) },
+  side: { offset: new THREE.Vector3(1, 0, 0), up: new THREE.Vector3(0, 1, 0), right: new THREE.Vector3(0, 0, -1) },
+};
+
+const DEFAULT_SPAN = 24;  // world units visible vertically
+const MIN_SPAN = 0.5;
+const MAX_SPAN = 1000;
+const CAMERA_DISTANCE = 200;
+
+/**
+ * One orthographic view: its camera plus the pan and zoom the user gave it.
+ */
+export const createOrthoView = (kind: OrthoKind) => {
+  const axes = ORTHO_AXES[kind];
+  const camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, CAMERA_DISTANCE * 4);
+  camera.up.copy(axes.up);
+  const pan = new THREE.Vector3();
+  let span = DEFAULT_SPAN;
+
+  return {
+    kind,
+    camera,
+    get span() { return span; },
+
+    zoomBy: (factor: number) => { span = Math.min(MAX_SPAN, Math.max(MIN_SPAN, span * factor)); },
+
+    /** Drags the view by a screen distance; `heightPx` is the viewport height. */
+    panBy: (dxPx: number, dyPx: number, heightPx: number) => {
+      const worldPerPx = span / Math.max(1, heightPx);
+      pan.addScaledVector(axes.right, -dxPx * worldPerPx).addScaledVector(axes.up, dyPx * worldPerPx);
+    },
+
+    reset: () => {
+      span = DEFAULT_SPAN;
+      pan.set(0, 0, 0);
+    },
+
+    /** Frames the target (plus pan) for a viewport of the given aspect ratio. */
+    update: (target: THREE.Vector3, aspect: number) => {
+      const center = target.clone().add(pan);
+      camera.position.copy(center).addScaledVector(axes.offset, CAMERA_DISTANCE);
+      camera.lookAt(center);
+      const halfHeight = span / 2;
+      camera.left = -halfHeight * aspect;
+      camera.right = halfHeight * aspect;
+      camera.top = halfHeight;
+      camera.bottom = -halfHeight;
+      camera.updateProjectionMatrix();
+    },
+  };
+};
+
+export type OrthoView = ReturnType<typeof createOrthoView>;
+
+export const createOrthoViews = (): Record<OrthoKind, OrthoView> => ({
+  front: createOrthoView('front'),
+  top: createOrthoView('top'),
+  side: createOrthoView('side'),
+});
+
+// --- DOM labels ---
+
+const projected = new THREE.Vector3();
+
+/**
+ * `calculatePosition` for drei `<Html>`: drei places labels against the whole
+ * canvas, so in a split layout they are mapped into the perspective viewport
+ * (the only one whose camera they follow). Layouts without it move them off
+ * the canvas, which clips them.
+ */
+export const viewportHtmlPosition = (getViewport: () => Viewport | null) =>
+  (object: THREE.Object3D, camera: THREE.Camera, size: { width: number; height: number }) => {
+    const viewport = getViewport();
+    if (!viewport) return [-size.width, -size.height];
+    projected.setFromMatrixPosition(object.matrixWorld).project(camera);
+    return [
+      (viewport.x + ((projected.x + 1) / 2) * viewport.width) * size.width,
+      (viewport.y + ((1 - projected.y) / 2) * viewport.height) * size.height,
+    ];
+  };
+
+/** `calculatePosition` pinning an `<Html>` panel to the middle of the canvas, whatever the layout. */
+export const canvasCenterPosition = (_object: THREE.Object3D, _camera: THREE.Camera, size: { width: number; height: number }) =>
+  [size.width / 2, size.height / 2];
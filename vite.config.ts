@@ -1,15 +1,33 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defaultAllowedOrigins, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// The sandbox iframe has an opaque origin, so its module scripts (sandbox.tsx and
+// everything it imports) are requested with `Origin: null`. Vite only answers
+// localhost origins by default; without this the sandbox stays blank.
+const cors = { origin: [defaultAllowedOrigins, 'null'] };
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        cors,
+      },
+      preview: {
+        cors,
       },
       plugins: [react()],
+      build: {
+        rollupOptions: {
+          // The sandbox page is a second entry loaded into an opaque-origin iframe
+          input: {
+            main: path.resolve('index.html'),
+            sandbox: path.resolve('sandbox.html'),
+          }
+        }
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)